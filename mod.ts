@@ -1,6 +1,20 @@
 // Main entry point for Deno
 export * from "cuss2-typescript-models";
 export * from "./src/cuss2.ts";
+export type { ConnectionEvents, ConnectionOptions, TrackedRequest } from "./src/connection.ts";
+export type { DropPolicy, OutboundQueueOptions } from "./src/outboundQueue.ts";
+export type { HeartbeatOptions } from "./src/heartbeat.ts";
+export * from "./src/transport.ts";
+export * from "./src/tokenProvider.ts";
+export * from "./src/recorder.ts";
+export * from "./src/validation.ts";
+export * from "./src/stateMachine.ts";
+export * from "./src/manifest.ts";
+export * from "./src/passengerSession.ts";
+export * from "./src/componentQuery.ts";
+export * from "./src/environment.ts";
+export * from "./src/interceptors.ts";
+export * from "./src/componentRegistry.ts";
 export * from "./src/models/index.ts";
 export * from "./src/models/stateChange.ts";
 export * from "./src/helper.ts";
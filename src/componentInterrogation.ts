@@ -22,6 +22,20 @@ const deviceTypesHas = (
 };
 
 export class ComponentInterrogation {
+  // Capability checks across every componentCharacteristics entry, not only the first
+
+  static hasDeviceType = (component: EnvironmentComponent, type: DeviceTypes): boolean => {
+    return !!component.componentCharacteristics?.some((c) => deviceTypesHas(c.deviceTypesList, type));
+  };
+
+  static hasMediaType = (component: EnvironmentComponent, type: MediaTypes): boolean => {
+    return !!component.componentCharacteristics?.some((c) => mediaTypesHas(c.mediaTypesList, type));
+  };
+
+  static hasDsType = (component: EnvironmentComponent, type: CUSSDataTypes): boolean => {
+    return !!component.componentCharacteristics?.some((c) => dsTypesHas(c, type));
+  };
+
   static isAnnouncement = (component: EnvironmentComponent) => {
     return component.componentType === ComponentTypes.ANNOUNCEMENT;
   };
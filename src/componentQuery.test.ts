@@ -0,0 +1,37 @@
+import { assertEquals } from "jsr:@std/assert";
+import { ComponentTypes, CUSSDataTypes, DeviceTypes, MediaTypes } from "cuss2-typescript-models";
+import { ComponentQuery } from "./componentQuery.ts";
+import { Component } from "./models/Component.ts";
+
+const component = (id: number, ready: boolean, _component: Record<string, unknown>) =>
+  ({ id, ready, enabled: false, required: false, _component }) as unknown as Component;
+
+const components = [
+  component(3, true, {
+    componentType: ComponentTypes.DATAINPUT,
+    componentDescription: "Passport reader",
+    componentCharacteristics: [
+      { mediaTypesList: [MediaTypes.MAGCARD] },
+      { mediaTypesList: [MediaTypes.PASSPORT], dsTypesList: [CUSSDataTypes.FOIDISO] },
+    ],
+  }),
+  component(1, false, {
+    componentType: ComponentTypes.DATAINPUT,
+    componentDescription: "Spare passport reader",
+    componentCharacteristics: [{ mediaTypesList: [MediaTypes.PASSPORT], dsTypesList: [CUSSDataTypes.FOIDISO] }],
+  }),
+  component(2, true, {
+    componentType: ComponentTypes.DATAOUTPUT,
+    componentCharacteristics: [{ deviceTypesList: [DeviceTypes.PRINT], mediaTypesList: [MediaTypes.BOARDINGPASS] }],
+  }),
+];
+
+Deno.test("ComponentQuery should match capabilities in any characteristics entry", () => {
+  const find = () => new ComponentQuery(() => components);
+
+  assertEquals(find().mediaType(MediaTypes.PASSPORT).all().map((c) => c.id), [1, 3]);
+  assertEquals(find().mediaType(MediaTypes.PASSPORT).dsType(CUSSDataTypes.FOIDISO).ready().first()?.id, 3);
+  assertEquals(find().deviceType(DeviceTypes.PRINT).count(), 1);
+  assertEquals(find().componentType(ComponentTypes.DATAINPUT).description(/^Spare/).first()?.id, 1);
+  assertEquals(find().mediaType(MediaTypes.MAGCARD).enabled().exists(), false);
+});
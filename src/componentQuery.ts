@@ -0,0 +1,92 @@
+import { ComponentTypes, CUSSDataTypes, DeviceTypes, MediaTypes } from "cuss2-typescript-models";
+import { ComponentInterrogation } from "./componentInterrogation.ts";
+import type { Component } from "./models/Component.ts";
+
+const { hasDeviceType, hasMediaType, hasDsType } = ComponentInterrogation;
+
+/**
+ * Fluent filter over the platform's components by capability. Filters look at every
+ * componentCharacteristics entry and are evaluated against the current components when a
+ * result is asked for, so a query can be kept and re-run.
+ *
+ * ```ts
+ * const readers = cuss2.find().mediaType(MediaTypes.PASSPORT).dsType(CUSSDataTypes.MRZ).ready().all();
+ * ```
+ */
+export class ComponentQuery<T extends Component = Component> {
+  _source: () => Component[];
+  _filters: ((component: Component) => boolean)[] = [];
+
+  constructor(source: () => Component[]) {
+    this._source = source;
+  }
+
+  where(filter: (component: T) => boolean): this {
+    this._filters.push(filter as (component: Component) => boolean);
+    return this;
+  }
+
+  /**
+   * Narrows to one of the SDK's component classes
+   */
+  ofType<U extends T>(type: abstract new (...args: never[]) => U): ComponentQuery<U> {
+    this._filters.push((component) => component instanceof type);
+    return this as unknown as ComponentQuery<U>;
+  }
+
+  componentType(type: ComponentTypes): this {
+    return this.where((component) => component._component.componentType === type);
+  }
+
+  deviceType(type: DeviceTypes): this {
+    return this.where((component) => hasDeviceType(component._component, type));
+  }
+
+  mediaType(type: MediaTypes): this {
+    return this.where((component) => hasMediaType(component._component, type));
+  }
+
+  dsType(type: CUSSDataTypes): this {
+    return this.where((component) => hasDsType(component._component, type));
+  }
+
+  description(description: string | RegExp): this {
+    return this.where((component) => {
+      const text = component._component.componentDescription ?? "";
+      return typeof description === "string" ? text === description : description.test(text);
+    });
+  }
+
+  ready(): this {
+    return this.where((component) => component.ready);
+  }
+
+  enabled(): this {
+    return this.where((component) => component.enabled);
+  }
+
+  required(): this {
+    return this.where((component) => component.required);
+  }
+
+  /**
+   * Matching components, ordered by componentID
+   */
+  all(): T[] {
+    return this._source()
+      .filter((component) => this._filters.every((filter) => filter(component)))
+      .sort((a, b) => a.id - b.id) as T[];
+  }
+
+  first(): T | undefined {
+    return this.all()[0];
+  }
+
+  count(): number {
+    return this.all().length;
+  }
+
+  exists(): boolean {
+    return this.count() > 0;
+  }
+}
@@ -0,0 +1,44 @@
+import { assertEquals } from "jsr:@std/assert";
+import { ComponentTypes, CUSSDataTypes, EnvironmentComponent } from "cuss2-typescript-models";
+import { ComponentFactory, ComponentRegistry } from "./componentRegistry.ts";
+import { Component } from "./models/Component.ts";
+
+const scanner = {
+  componentID: 1,
+  componentType: ComponentTypes.DATAINPUT,
+  componentDescription: "Acme gate scanner",
+  componentCharacteristics: [{ dsTypesList: [CUSSDataTypes.BARCODE] }],
+} as unknown as EnvironmentComponent;
+
+const vendorFactory = (name: string, priority?: number): ComponentFactory => ({
+  name,
+  priority,
+  match: (component) => component.componentDescription?.startsWith("Acme"),
+  create: () => ({}) as Component,
+});
+
+Deno.test("ComponentRegistry should classify with the built-in factories in order", () => {
+  const registry = new ComponentRegistry();
+  assertEquals(registry.resolve(scanner)?.name, "BarcodeReader");
+  assertEquals(registry.factories.slice(0, 2).map((f) => f.subcomponent), [true, true]);
+  assertEquals(registry.resolve({ componentID: 2 } as EnvironmentComponent), undefined);
+});
+
+Deno.test("ComponentRegistry should try registered factories by priority", () => {
+  const registry = new ComponentRegistry();
+
+  const unregister = registry.register(vendorFactory("AcmeGate"));
+  assertEquals(registry.resolve(scanner)?.name, "AcmeGate");
+  unregister();
+  assertEquals(registry.resolve(scanner)?.name, "BarcodeReader");
+
+  registry.register(vendorFactory("AcmeFallback", -1000));
+  assertEquals(registry.resolve(scanner)?.name, "BarcodeReader");
+
+  // Equal priorities keep registration order, and a name replaces an earlier registration
+  registry.register(vendorFactory("First", 5));
+  registry.register(vendorFactory("Second", 5));
+  assertEquals(registry.resolve(scanner)?.name, "First");
+  registry.register(vendorFactory("First", 1));
+  assertEquals(registry.resolve(scanner)?.name, "Second");
+});
@@ -0,0 +1,138 @@
+import type { EnvironmentComponent } from "cuss2-typescript-models";
+import type { Cuss2 } from "./cuss2.ts";
+import { ComponentInterrogation } from "./componentInterrogation.ts";
+import {
+  AEASBD,
+  Announcement,
+  BagTagPrinter,
+  BarcodeReader,
+  BHS,
+  Biometric,
+  BoardingPassPrinter,
+  Camera,
+  CardReader,
+  Component,
+  Dispenser,
+  DocumentReader,
+  Feeder,
+  Headset,
+  Illumination,
+  InsertionBelt,
+  Keypad,
+  ParkingBelt,
+  RFID,
+  Scale,
+  VerificationBelt,
+} from "./models/index.ts";
+
+/**
+ * Creates the component class for the platform components it matches
+ */
+export interface ComponentFactory<T extends Component = Component> {
+  // Used in logs and to replace a registration
+  name?: string;
+  match: (component: EnvironmentComponent) => unknown;
+  create: (component: EnvironmentComponent, cuss2: Cuss2) => T;
+  /**
+   * Factories are tried from the highest priority down, default 0. The built-in ones have negative
+   * priorities, so a registered factory is tried before them unless given a lower priority.
+   */
+  priority?: number;
+  /**
+   * Created before all other components, so that the components linking to them can find them
+   */
+  subcomponent?: boolean;
+}
+
+const {
+  isAEASBD,
+  isAnnouncement,
+  isBagTagPrinter,
+  isBarcodeReader,
+  isBHS,
+  isBiometric,
+  isBoardingPassPrinter,
+  isCamera,
+  isCardReader,
+  isDispenser,
+  isDocumentReader,
+  isFeeder,
+  isHeadset,
+  isIllumination,
+  isInsertionBelt,
+  isKeypad,
+  isParkingBelt,
+  isRFIDReader,
+  isScale,
+  isVerificationBelt,
+} = ComponentInterrogation;
+
+const builtin = (
+  name: string,
+  match: ComponentFactory["match"],
+  create: ComponentFactory["create"],
+  subcomponent?: boolean,
+): ComponentFactory => ({ name, match, create, subcomponent });
+
+/**
+ * The classes the SDK provides, in the order components are classified
+ */
+export const BUILTIN_COMPONENT_FACTORIES: readonly ComponentFactory[] = [
+  builtin("Feeder", isFeeder, (c, cuss2) => new Feeder(c, cuss2), true),
+  builtin("Dispenser", isDispenser, (c, cuss2) => new Dispenser(c, cuss2), true),
+  builtin("Announcement", isAnnouncement, (c, cuss2) => new Announcement(c, cuss2)),
+  builtin("BagTagPrinter", isBagTagPrinter, (c, cuss2) => new BagTagPrinter(c, cuss2)),
+  builtin("BoardingPassPrinter", isBoardingPassPrinter, (c, cuss2) => new BoardingPassPrinter(c, cuss2)),
+  builtin("DocumentReader", isDocumentReader, (c, cuss2) => new DocumentReader(c, cuss2)),
+  builtin("BarcodeReader", isBarcodeReader, (c, cuss2) => new BarcodeReader(c, cuss2)),
+  builtin("CardReader", isCardReader, (c, cuss2) => new CardReader(c, cuss2)),
+  builtin("Keypad", isKeypad, (c, cuss2) => new Keypad(c, cuss2)),
+  builtin("Biometric", isBiometric, (c, cuss2) => new Biometric(c, cuss2)),
+  builtin("Scale", isScale, (c, cuss2) => new Scale(c, cuss2)),
+  builtin("Camera", isCamera, (c, cuss2) => new Camera(c, cuss2)),
+  builtin("InsertionBelt", isInsertionBelt, (c, cuss2) => new InsertionBelt(c, cuss2)),
+  builtin("VerificationBelt", isVerificationBelt, (c, cuss2) => new VerificationBelt(c, cuss2)),
+  builtin("ParkingBelt", isParkingBelt, (c, cuss2) => new ParkingBelt(c, cuss2)),
+  builtin("RFID", isRFIDReader, (c, cuss2) => new RFID(c, cuss2)),
+  builtin("BHS", isBHS, (c, cuss2) => new BHS(c, cuss2)),
+  builtin("AEASBD", isAEASBD, (c, cuss2) => new AEASBD(c, cuss2)),
+  builtin("Illumination", isIllumination, (c, cuss2) => new Illumination(c, cuss2)),
+  builtin("Headset", isHeadset, (c, cuss2) => new Headset(c, cuss2)),
+].map((factory, i) => ({ ...factory, priority: -(i + 1) * 10 }));
+
+/**
+ * Decides which class each platform component gets
+ */
+export class ComponentRegistry {
+  _factories: ComponentFactory[] = [];
+
+  constructor(factories: readonly ComponentFactory[] = BUILTIN_COMPONENT_FACTORIES) {
+    factories.forEach((factory) => this.register(factory));
+  }
+
+  get factories(): readonly ComponentFactory[] {
+    return this._factories;
+  }
+
+  /**
+   * Adds a factory, replacing any registered under the same name. Returns a function that removes it.
+   */
+  register(factory: ComponentFactory): () => void {
+    if (factory.name) {
+      this._factories = this._factories.filter((f) => f.name !== factory.name);
+    }
+    // Stable sort: equal priorities keep their registration order
+    this._factories = [...this._factories, factory]
+      .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+    return () => {
+      this._factories = this._factories.filter((f) => f !== factory);
+    };
+  }
+
+  /**
+   * The first factory matching the component, or undefined when it should be a plain Component
+   */
+  resolve(component: EnvironmentComponent): ComponentFactory | undefined {
+    return this._factories.find((factory) => factory.match(component));
+  }
+}
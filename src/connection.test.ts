@@ -1,10 +1,20 @@
 import { assertEquals, assertExists, assertRejects, assertStringIncludes, fail as _fail } from "jsr:@std/assert";
 import { delay } from "jsr:@std/async/delay";
 
-import { Connection, global } from "./connection.ts";
-import { AuthenticationError } from "./models/Errors.ts";
+import { Connection } from "./connection.ts";
+import { global } from "./global.ts";
+import { bridgePort, LoopbackTransport, loopbackTransport, messagePortTransport } from "./transport.ts";
+import { tokenCallback } from "./tokenProvider.ts";
+import {
+  AcknowledgementTimeoutError,
+  AuthenticationError,
+  MessageDroppedError,
+  MessageVetoedError,
+  PlatformDataValidationError,
+  RequestTimeoutError,
+} from "./models/Errors.ts";
 import { PlatformResponseError } from "./models/platformResponseError.ts";
-import { MessageCodes, PlatformDirectives } from "cuss2-typescript-models";
+import { ApplicationStateCodes, MessageCodes, PlatformDirectives } from "cuss2-typescript-models";
 
 // Mock for the WebSocket class
 class MockWebSocket {
@@ -325,7 +335,7 @@ Deno.test(
 
     assertEquals(connection.access_token, testToken);
 
-    assertEquals(timeoutDuration, 3599000); // (3600 - 1) * 1000
+    assertEquals(timeoutDuration, 3240000); // refreshed with 10% of the lifetime left
     assertExists(timeoutCallback);
 
     // @ts-ignore - Accessing private property for testing
@@ -743,6 +753,70 @@ Deno.test(
     assertExists(closeEventObj);
     assertEquals(closeEventObj.code, 1006);
     assertEquals(closeEventObj.reason, "Connection lost");
+
+    // Stop the reconnect triggered by the abnormal closure
+    connection.close();
+  }),
+);
+
+Deno.test(
+  "Connection should reconnect and report progress after an abnormal closure",
+  mockGlobal(async () => {
+    mockFetch();
+    const mockWs = mockWebSocket();
+
+    const connection = await Connection.connect(
+      testBaseUrl,
+      testDeviceId,
+      testClientId,
+      testClientSecret,
+      testTokenUrl,
+      { minTimeout: 10 },
+    );
+
+    const events: { event: string; data: unknown }[] = [];
+    // @ts-ignore - Event types are not properly defined for testing
+    connection.on("disconnected", (data) => events.push({ event: "disconnected", data }));
+    // @ts-ignore - Event types are not properly defined for testing
+    connection.on("reconnecting", (data) => events.push({ event: "reconnecting", data }));
+    // @ts-ignore - Event types are not properly defined for testing
+    connection.on("reconnected", (data) => events.push({ event: "reconnected", data }));
+
+    mockWs.close(1006, "Connection lost");
+    await delay(50);
+
+    assertEquals(events.map((e) => e.event), ["disconnected", "reconnecting", "reconnected"]);
+    assertEquals(events[1].data, 1);
+    assertEquals(events[2].data, 1);
+    assertEquals(connection.isOpen, true);
+
+    connection.close();
+  }),
+);
+
+Deno.test(
+  "Connection should not reconnect after close() is called",
+  mockGlobal(async () => {
+    mockFetch();
+    const mockWs = mockWebSocket();
+
+    const connection = await Connection.connect(
+      testBaseUrl,
+      testDeviceId,
+      testClientId,
+      testClientSecret,
+      testTokenUrl,
+    );
+
+    let disconnected = false;
+    // @ts-ignore - Event types are not properly defined for testing
+    connection.on("disconnected", () => disconnected = true);
+
+    connection.close(1001, "Going away");
+    await delay(20);
+
+    assertEquals(disconnected, false);
+    assertEquals(mockWs.readyState, MockWebSocket.CLOSED);
   }),
 );
 
@@ -1034,6 +1108,562 @@ Deno.test("sendAndGetResponse should throw PlatformResponseError for critical er
   );
 });
 
+Deno.test(
+  "sendAndGetResponse should reject with RequestTimeoutError and emit lateResponse for late replies",
+  mockGlobal(async () => {
+    mockFetch();
+    const mockWs = mockWebSocket();
+
+    const connection = await Connection.connect(
+      testBaseUrl,
+      testDeviceId,
+      testClientId,
+      testClientSecret,
+      testTokenUrl,
+      undefined,
+      { requestTimeout: 20 },
+    );
+
+    const lateResponses: unknown[] = [];
+    // @ts-ignore - Event types are not properly defined for testing
+    connection.on("lateResponse", (data) => lateResponses.push(data));
+
+    // @ts-ignore - Using simplified test data structure
+    const testData = {
+      meta: {
+        requestID: "slow-request-id",
+        directive: PlatformDirectives.PeripheralsUserpresentEnable,
+      },
+      payload: {},
+    };
+
+    const error = await assertRejects(
+      // @ts-ignore - Testing with simplified data structure
+      () => connection.sendAndGetResponse(testData),
+      RequestTimeoutError,
+    );
+    assertEquals(error.requestID, "slow-request-id");
+    assertEquals(error.directive, PlatformDirectives.PeripheralsUserpresentEnable);
+    assertEquals(error.timeout, 20);
+
+    mockWs.simulateMessage(JSON.stringify({
+      meta: { requestID: "slow-request-id", messageCode: MessageCodes.OK },
+    }));
+    assertEquals(lateResponses.length, 1);
+
+    connection.close();
+  }),
+);
+
+Deno.test(
+  "timeoutFor should honor directive timeouts over the default",
+  () => {
+    const connection = new Connection(
+      testBaseUrl,
+      testDeviceId,
+      testClientId,
+      testClientSecret,
+      testTokenUrl,
+      undefined,
+      {
+        requestTimeout: 1000,
+        directiveTimeouts: { [PlatformDirectives.PeripheralsSend]: 5000 },
+      },
+    );
+
+    assertEquals(connection.timeoutFor(PlatformDirectives.PeripheralsSend), 5000);
+    assertEquals(connection.timeoutFor(PlatformDirectives.PeripheralsQuery), 1000);
+    assertEquals(connection.timeoutFor(), 1000);
+    assertEquals(connection.timeoutFor("" as PlatformDirectives), 1000);
+  },
+);
+
+Deno.test(
+  "sendAndGetResponse should prefer the per-call timeout over the directive timeout",
+  mockGlobal(async () => {
+    mockFetch();
+    mockWebSocket();
+
+    const connection = await Connection.connect(
+      testBaseUrl,
+      testDeviceId,
+      testClientId,
+      testClientSecret,
+      testTokenUrl,
+      undefined,
+      { requestTimeout: 0, directiveTimeouts: { [PlatformDirectives.PeripheralsSend]: 5000 } },
+    );
+
+    // @ts-ignore - Using simplified test data structure
+    const testData = {
+      meta: { requestID: "per-call-timeout", directive: PlatformDirectives.PeripheralsSend },
+      payload: {},
+    };
+
+    const error = await assertRejects(
+      // @ts-ignore - Testing with simplified data structure
+      () => connection.sendAndGetResponse(testData, { timeout: 10 }),
+      RequestTimeoutError,
+    );
+    assertEquals(error.timeout, 10);
+
+    connection.close();
+  }),
+);
+
+Deno.test("sendAndGetResponse should reject when the AbortSignal is aborted", async () => {
+  const connection = new Connection(
+    testBaseUrl,
+    testDeviceId,
+    testClientId,
+    testClientSecret,
+    testTokenUrl,
+    undefined,
+    { requestTimeout: 0 },
+  );
+  const mockWs = new MockWebSocket();
+  // @ts-ignore - Accessing private property for testing
+  connection._socket = mockWs;
+
+  // @ts-ignore - Using simplified test data structure
+  const testData = {
+    meta: {
+      requestID: "aborted-request-id",
+      directive: PlatformDirectives.PeripheralsQuery,
+    },
+    payload: {},
+  };
+
+  const controller = new AbortController();
+  // @ts-ignore - Testing with simplified data structure
+  const promise = connection.sendAndGetResponse(testData, { signal: controller.signal });
+  controller.abort(new Error("User cancelled"));
+
+  await assertRejects(() => promise, Error, "User cancelled");
+  assertEquals(mockWs.sentMessages.length, 1);
+  assertEquals(connection.listenerCount("aborted-request-id"), 0);
+  assertEquals(connection.listenerCount("close"), 0);
+});
+
+Deno.test(
+  "Connection should queue messages while reconnecting and replay them with the current token",
+  mockGlobal(async () => {
+    mockFetch();
+    const mockWs = mockWebSocket();
+
+    const connection = await Connection.connect(
+      testBaseUrl,
+      testDeviceId,
+      testClientId,
+      testClientSecret,
+      testTokenUrl,
+      { minTimeout: 10 },
+      { queue: { maxSize: 5 } },
+    );
+
+    mockWs.close(1006, "Connection lost");
+    mockWs.sentMessages.length = 0;
+
+    // @ts-ignore - Using simplified test data structure
+    const illumination = { meta: { requestID: "queued-send", directive: PlatformDirectives.PeripheralsSend } };
+    // @ts-ignore - Testing with simplified data structure
+    connection.send(illumination);
+
+    // @ts-ignore - Testing with simplified data structure
+    const response = connection.sendAndGetResponse({
+      meta: { requestID: "queued-request", directive: PlatformDirectives.PeripheralsUserpresentDisable },
+    });
+    assertEquals(mockWs.sentMessages.length, 0);
+
+    connection.access_token = "refreshed-token";
+    await delay(50);
+
+    const sent = mockWs.sentMessages.map((m) => JSON.parse(m));
+    assertEquals(sent.map((m) => m.meta.requestID), ["queued-send", "queued-request"]);
+    assertEquals(sent.map((m) => m.meta.oauthToken), ["refreshed-token", "refreshed-token"]);
+
+    mockWs.simulateMessage(JSON.stringify({
+      meta: { requestID: "queued-request", messageCode: MessageCodes.OK },
+    }));
+    assertEquals((await response).meta.requestID, "queued-request");
+
+    connection.close();
+  }),
+);
+
+Deno.test("Connection should drop queued messages according to the drop policy", async () => {
+  const connection = new Connection(
+    testBaseUrl,
+    testDeviceId,
+    testClientId,
+    testClientSecret,
+    testTokenUrl,
+    undefined,
+    { requestTimeout: 0, queue: { maxSize: 1, dropPolicy: "dropNewest" } },
+  );
+
+  const dropped: MessageDroppedError[] = [];
+  // @ts-ignore - Event types are not properly defined for testing
+  connection.on("messageDropped", (e) => dropped.push(e));
+
+  // @ts-ignore - Testing with simplified data structure
+  const first = connection.sendAndGetResponse({ meta: { requestID: "first" } });
+  // @ts-ignore - Testing with simplified data structure
+  const second = connection.sendAndGetResponse({ meta: { requestID: "second" } });
+
+  const error = await assertRejects(() => second, MessageDroppedError);
+  assertEquals(error.reason, "overflow");
+  assertEquals(error.requestID, "second");
+
+  // Closing discards whatever is still queued
+  connection.close();
+  const closedError = await assertRejects(() => first, MessageDroppedError);
+  assertEquals(closedError.reason, "closed");
+  assertEquals(dropped.length, 2);
+});
+
+Deno.test(
+  "sendAndTrack should resolve accepted on the matching ack and response on the final reply",
+  mockGlobal(async () => {
+    mockFetch();
+    const mockWs = mockWebSocket();
+
+    const connection = await Connection.connect(
+      testBaseUrl,
+      testDeviceId,
+      testClientId,
+      testClientSecret,
+      testTokenUrl,
+    );
+
+    // @ts-ignore - Using simplified test data structure
+    const tracked = connection.sendAndTrack({
+      meta: { requestID: "tracked-request", directive: PlatformDirectives.PeripheralsSend },
+    });
+
+    // An ack for another request is ignored
+    mockWs.simulateMessage(JSON.stringify({ ackCode: "OK", requestID: "other-request" }));
+    mockWs.simulateMessage(JSON.stringify({ ackCode: "OK", requestID: "tracked-request" }));
+    const ack = await tracked.accepted;
+    assertEquals(ack?.requestID, "tracked-request");
+
+    mockWs.simulateMessage(JSON.stringify({
+      meta: { requestID: "tracked-request", messageCode: MessageCodes.OK },
+    }));
+    assertEquals((await tracked.response).meta.requestID, "tracked-request");
+
+    connection.close();
+  }),
+);
+
+Deno.test(
+  "sendAndTrack should not leave an unhandled rejection when only the response is awaited",
+  mockGlobal(async () => {
+    mockFetch();
+    const mockWs = mockWebSocket();
+
+    const connection = await Connection.connect(
+      testBaseUrl,
+      testDeviceId,
+      testClientId,
+      testClientSecret,
+      testTokenUrl,
+      undefined,
+      { ackTimeout: 10 },
+    );
+
+    const request = { meta: { requestID: "ack-lost", directive: PlatformDirectives.PeripheralsSend } };
+    // @ts-ignore - Using simplified test data structure
+    const tracked = connection.sendAndTrack(request);
+    // The acknowledgement times out while the response is still on its way
+    await delay(20);
+    mockWs.simulateMessage(JSON.stringify({ meta: { requestID: "ack-lost", messageCode: MessageCodes.OK } }));
+    assertEquals((await tracked.response).meta.requestID, "ack-lost");
+
+    const aborted = connection.sendAndTrack(
+      // @ts-ignore - Using simplified test data structure
+      { meta: { requestID: "aborted", directive: PlatformDirectives.PeripheralsSend } },
+      { signal: AbortSignal.abort() },
+    );
+    await assertRejects(() => aborted.response);
+    await delay(0);
+
+    connection.close();
+  }),
+);
+
+Deno.test(
+  "sendAndGetResponse should reject with AcknowledgementTimeoutError when no ack arrives",
+  mockGlobal(async () => {
+    mockFetch();
+    const mockWs = mockWebSocket();
+
+    const connection = await Connection.connect(
+      testBaseUrl,
+      testDeviceId,
+      testClientId,
+      testClientSecret,
+      testTokenUrl,
+      undefined,
+      { ackTimeout: 20, requestTimeout: 40 },
+    );
+
+    const error = await assertRejects(
+      // @ts-ignore - Testing with simplified data structure
+      () => connection.sendAndGetResponse({ meta: { requestID: "unacknowledged" } }),
+      AcknowledgementTimeoutError,
+    );
+    assertEquals(error.requestID, "unacknowledged");
+    // The response wait was abandoned along with the request
+    assertEquals(connection.listenerCount("unacknowledged"), 0);
+
+    const late: unknown[] = [];
+    connection.on("lateResponse", (message) => late.push(message));
+    mockWs.simulateMessage(JSON.stringify({ meta: { requestID: "unacknowledged", messageCode: MessageCodes.OK } }));
+    assertEquals(late.length, 1);
+    connection.close();
+  }),
+);
+
+Deno.test(
+  "Connection should reject responses that fail strict validation",
+  mockGlobal(async () => {
+    mockFetch();
+    const mockWs = mockWebSocket();
+
+    const connection = await Connection.connect(
+      testBaseUrl,
+      testDeviceId,
+      testClientId,
+      testClientSecret,
+      testTokenUrl,
+      undefined,
+      { validation: "strict" },
+    );
+    const reported: PlatformDataValidationError[] = [];
+    connection.on("validationError", (e) => reported.push(e as unknown as PlatformDataValidationError));
+    let messages = 0;
+    connection.on("message", () => messages++);
+
+    // @ts-ignore - Testing with simplified data structure
+    const response = connection.sendAndGetResponse({ meta: { requestID: "invalid-response" } });
+    mockWs.simulateMessage(JSON.stringify({ meta: { requestID: "invalid-response", messageCode: "NOT_A_CODE" } }));
+
+    const error = await assertRejects(() => response, PlatformDataValidationError);
+    assertEquals(error.issues.map((i) => i.path), ["meta.messageCode", "meta.currentApplicationState"]);
+    assertEquals(reported.length, 1);
+    assertEquals(messages, 0);
+    assertEquals(connection.listenerCount("close"), 0);
+
+    connection.close();
+  }),
+);
+
+Deno.test(
+  "Connection should talk to the platform through a custom transport",
+  mockGlobal(async () => {
+    mockFetch();
+    let platformEnd: LoopbackTransport | undefined;
+    let connectedURL = "";
+
+    const connection = await Connection.connect(
+      testBaseUrl,
+      testDeviceId,
+      testClientId,
+      testClientSecret,
+      testTokenUrl,
+      undefined,
+      {
+        transport: loopbackTransport((peer, url) => {
+          platformEnd = peer;
+          connectedURL = url;
+          // Echo every request back as an OK response
+          peer.onmessage = (event) => {
+            const request = JSON.parse(event.data);
+            peer.send(JSON.stringify({ meta: { requestID: request.meta.requestID, messageCode: MessageCodes.OK } }));
+          };
+        }),
+      },
+    );
+
+    assertEquals(connectedURL, "wss://example.com/api/platform/subscribe");
+    assertEquals(connection.isOpen, true);
+
+    // @ts-ignore - Testing with simplified data structure
+    const response = await connection.sendAndGetResponse({ meta: { requestID: "loopback-request" } });
+    assertEquals(response.meta.requestID, "loopback-request");
+
+    let closed = false;
+    connection.once("close", () => closed = true);
+    platformEnd?.close(1000, "done");
+    await delay(10);
+    assertEquals(closed, true);
+    connection.close();
+  }),
+);
+
+Deno.test(
+  "Connection should talk to the platform through a MessagePort bridged to another transport",
+  mockGlobal(async () => {
+    mockFetch();
+    let platformEnd: LoopbackTransport | undefined;
+    let clientPort: MessagePort | undefined;
+
+    const connection = await Connection.connect(
+      testBaseUrl,
+      testDeviceId,
+      testClientId,
+      testClientSecret,
+      testTokenUrl,
+      undefined,
+      {
+        // The worker side gets one end of the channel, the main thread bridges the other to the platform
+        transport: messagePortTransport(() => {
+          const channel = new MessageChannel();
+          const [socket, peer] = LoopbackTransport.pair();
+          platformEnd = peer;
+          peer.onmessage = (event) => {
+            const request = JSON.parse(event.data);
+            peer.send(JSON.stringify({ meta: { requestID: request.meta.requestID, messageCode: MessageCodes.OK } }));
+          };
+          bridgePort(channel.port2, socket);
+          clientPort = channel.port1;
+          return channel.port1;
+        }),
+      },
+    );
+    assertEquals(connection.isOpen, true);
+
+    // @ts-ignore - Testing with simplified data structure
+    const response = await connection.sendAndGetResponse({ meta: { requestID: "port-request" } });
+    assertEquals(response.meta.requestID, "port-request");
+
+    const closed = new Promise<CloseEvent>((resolve) => connection.once("close", resolve));
+    platformEnd?.close(1000, "done");
+    const event = await closed;
+    assertEquals(event.code, 1000);
+    assertEquals(event.reason, "done");
+    assertEquals(connection.isOpen, false);
+    clientPort?.close();
+  }),
+);
+
+Deno.test(
+  "Connection should run outbound and inbound interceptors in registration order",
+  mockGlobal(async () => {
+    mockFetch();
+    const sent: Record<string, unknown>[] = [];
+
+    const connection = await Connection.connect(
+      testBaseUrl,
+      testDeviceId,
+      testClientId,
+      testClientSecret,
+      testTokenUrl,
+      undefined,
+      {
+        transport: loopbackTransport((peer) => {
+          peer.onmessage = (event) => {
+            const request = JSON.parse(event.data);
+            sent.push(request);
+            peer.send(JSON.stringify({ meta: { requestID: request.meta.requestID, messageCode: MessageCodes.OK } }));
+          };
+        }),
+      },
+    );
+
+    const order: string[] = [];
+    connection.use({
+      outbound: async (data) => {
+        await delay(1);
+        order.push("first");
+        return { ...data, meta: { ...data.meta, applicationID: { companyCode: "XX" } } } as typeof data;
+      },
+      inbound: (data) => {
+        (data.meta as Record<string, unknown>).annotated = true;
+      },
+    });
+    const unregister = connection.use({
+      outbound: (data) => {
+        order.push("second");
+        if (data.meta.requestID === "vetoed") return false;
+      },
+    });
+
+    // @ts-ignore - Testing with simplified data structure
+    const response = await connection.sendAndGetResponse({ meta: { requestID: "intercepted" } });
+    assertEquals(order, ["first", "second"]);
+    assertEquals((sent[0].meta as Record<string, unknown>).applicationID, { companyCode: "XX" });
+    assertEquals((response.meta as Record<string, unknown>).annotated, true);
+
+    await assertRejects(
+      // @ts-ignore - Testing with simplified data structure
+      () => connection.sendAndGetResponse({ meta: { requestID: "vetoed" } }),
+      MessageVetoedError,
+    );
+    assertEquals(sent.length, 1);
+
+    unregister();
+    // @ts-ignore - Testing with simplified data structure
+    await connection.sendAndGetResponse({ meta: { requestID: "vetoed" } });
+    assertEquals(sent.length, 2);
+    connection.close();
+  }),
+);
+
+Deno.test(
+  "Connection should intercept sent messages and validate platform messages after the interceptors",
+  mockGlobal(async () => {
+    mockFetch();
+    const sent: Record<string, unknown>[] = [];
+    let platformEnd: LoopbackTransport | undefined;
+
+    const connection = await Connection.connect(
+      testBaseUrl,
+      testDeviceId,
+      testClientId,
+      testClientSecret,
+      testTokenUrl,
+      undefined,
+      {
+        validation: "strict",
+        transport: loopbackTransport((peer) => {
+          platformEnd = peer;
+          peer.onmessage = (event) => sent.push(JSON.parse(event.data));
+        }),
+      },
+    );
+
+    const currentApplicationState = { applicationStateCode: ApplicationStateCodes.AVAILABLE };
+    const stop = connection.use({
+      outbound: (data) => ({ ...data, meta: { ...data.meta, applicationID: { companyCode: "XX" } } }) as typeof data,
+      inbound: async (data) => {
+        await delay(5);
+        // Fills in what this platform leaves out, which strict validation would otherwise drop
+        (data.meta as Record<string, unknown>).currentApplicationState ??= currentApplicationState;
+      },
+    });
+
+    // @ts-ignore - Testing with simplified data structure
+    connection.send({ meta: { requestID: "fire-and-forget" } });
+    await delay(1);
+    assertEquals((sent[0].meta as Record<string, unknown>).applicationID, { companyCode: "XX" });
+
+    const handled: string[] = [];
+    connection.on("message", (data) => handled.push(data.meta.requestID as string));
+    platformEnd!.send(JSON.stringify({ meta: { requestID: "normalised", messageCode: MessageCodes.OK } }));
+    await delay(1);
+
+    // A message arriving after the interceptor is removed waits for the one still going through it
+    stop();
+    const complete = { requestID: "after-removal", messageCode: MessageCodes.OK, currentApplicationState };
+    platformEnd!.send(JSON.stringify({ meta: complete }));
+    await delay(10);
+    assertEquals(handled, ["normalised", "after-removal"]);
+    connection.close();
+  }),
+);
+
 // Test error handling in message processing
 Deno.test(
   "Connection should handle malformed JSON in onmessage handler",
@@ -1327,19 +1957,12 @@ Deno.test("waitFor should clean up listeners after resolution", async () => {
   );
 
   const testEventName = "test-event";
-
-  // Track off calls
-  const offCalls: { event: string; listener: unknown }[] = [];
-  const originalOff = connection.off.bind(connection);
-
-  // @ts-ignore - Function signature is incompatible but needed for testing
-  connection.off = (event: string, listener: (...args: unknown[]) => void) => {
-    offCalls.push({ event, listener });
-    return originalOff(event, listener) as ReturnType<typeof originalOff>;
-  };
+  const listeners = () =>
+    [testEventName, `invalid:${testEventName}`, "close"].map((event) => connection.listenerCount(event));
 
   // Start waiting for the event
   const waitPromise = connection.waitFor(testEventName);
+  assertEquals(listeners(), [1, 1, 1]);
 
   // Emit the event
   connection.emit(testEventName, { test: "data" });
@@ -1347,12 +1970,8 @@ Deno.test("waitFor should clean up listeners after resolution", async () => {
   // Wait for promise to resolve
   await waitPromise;
 
-  // Verify off was called for the close event
-  assertEquals(offCalls.length, 1);
-  assertEquals(offCalls[0].event, "close");
-
-  // Reset offCalls
-  offCalls.length = 0;
+  // The close and strict validation listeners are removed along with the resolved one
+  assertEquals(listeners(), [0, 0, 0]);
 
   // Start another wait and emit close
   const waitPromise2 = connection.waitFor(testEventName);
@@ -1366,9 +1985,8 @@ Deno.test("waitFor should clean up listeners after resolution", async () => {
     // Expected to throw
   }
 
-  // Verify off was called for the test event
-  assertEquals(offCalls.length, 1);
-  assertEquals(offCalls[0].event, testEventName);
+  // waitFor removes listeners through EventEmitter's own off, so count what is left rather than spying on it
+  assertEquals(listeners(), [0, 0, 0]);
 });
 
 // Test token refreshing with short expiration time
@@ -1448,3 +2066,107 @@ Deno.test(
     }
   }),
 );
+
+Deno.test(
+  "Connection should retry a failed token refresh with backoff",
+  mockGlobal(async () => {
+    let calls = 0;
+    const connection = new Connection(
+      testBaseUrl,
+      testDeviceId,
+      testClientId,
+      testClientSecret,
+      testTokenUrl,
+      { minTimeout: 100, multiplier: 2, maxTimeout: 300 },
+      {
+        tokenProvider: tokenCallback(() => {
+          calls++;
+          return calls === 1 || calls > 4
+            ? Promise.resolve({ access_token: `token-${calls}`, expires_in: 60, token_type: "Bearer" })
+            : Promise.reject(new Error("Token endpoint unavailable"));
+        }),
+      },
+    );
+
+    const timeoutCalls: Array<{ callback: TimerHandler; ms: number }> = [];
+    global.setTimeout = (callback: TimerHandler, ms?: number) => {
+      timeoutCalls.push({ callback, ms: ms || 0 });
+      return timeoutCalls.length as unknown as ReturnType<typeof setTimeout>;
+    };
+    const failures: unknown[] = [];
+    connection.on("tokenRefreshFailed", (error) => failures.push(error));
+
+    await connection._authenticateAndQueueTokenRefresh();
+    assertEquals(timeoutCalls[0].ms, 54000);
+
+    // Three failed refreshes back off, capped at maxTimeout, then the fourth succeeds
+    for (let i = 0; i < 4; i++) {
+      await (timeoutCalls[i].callback as () => Promise<void>)();
+    }
+    assertEquals(timeoutCalls.map((t) => t.ms), [54000, 100, 200, 300, 54000]);
+    assertEquals(failures.length, 3);
+    assertEquals(connection.access_token, "token-5");
+  }),
+);
+
+Deno.test("refreshDelay should leave the configured lead before the token expires", () => {
+  const refreshDelay = (tokenRefreshLead?: number | `${number}%`) =>
+    new Connection(testBaseUrl, testDeviceId, testClientId, testClientSecret, testTokenUrl, undefined, {
+      tokenRefreshLead,
+    }).refreshDelay(3600);
+
+  assertEquals(refreshDelay(), 3240000);
+  assertEquals(refreshDelay("25%"), 2700000);
+  assertEquals(refreshDelay(300), 3300000);
+  // Never later than a second before expiry, and never negative
+  assertEquals(refreshDelay(0), 3599000);
+  assertEquals(refreshDelay(7200), 0);
+});
+
+Deno.test(
+  "Connection should renew a rejected token before reconnecting",
+  mockGlobal(async () => {
+    let issued = 0;
+    let invalidated = 0;
+    const sockets: LoopbackTransport[] = [];
+
+    const connection = await Connection.connect(
+      testBaseUrl,
+      testDeviceId,
+      testClientId,
+      testClientSecret,
+      testTokenUrl,
+      { minTimeout: 10 },
+      {
+        tokenProvider: {
+          getToken: () => Promise.resolve({ access_token: `token-${++issued}`, expires_in: 0, token_type: "Bearer" }),
+          invalidate: () => {
+            invalidated++;
+          },
+        },
+        transport: loopbackTransport((peer) => sockets.push(peer)),
+      },
+    );
+    assertEquals(connection.access_token, "token-1");
+
+    const reconnected = new Promise((resolve) => connection.once("reconnected", resolve));
+    sockets[0].close(4401, "Token expired");
+    await reconnected;
+
+    assertEquals(invalidated, 1);
+    assertEquals(connection.access_token, "token-2");
+    assertEquals(sockets.length, 2);
+    connection.close();
+  }),
+);
+
+Deno.test("Connection listeners should be typed by event name", () => {
+  const connection = new Connection(testBaseUrl, testDeviceId, testClientId, testClientSecret, testTokenUrl);
+  let received: number | undefined;
+  connection.on("reconnecting", (attempt) => received = attempt);
+  // @ts-expect-error - unknown event names don't compile
+  connection.on("reconecting", () => {});
+
+  connection.emit("reconnecting", 2);
+  assertEquals(received, 2);
+});
@@ -1,38 +1,154 @@
 import { EventEmitter } from "events";
+import { global } from "./global.ts";
 import { helpers } from "./helper.ts";
 import { PlatformResponseError } from "./models/platformResponseError.ts";
-import { AuthenticationError } from "./models/Errors.ts";
-import type { ApplicationData, PlatformData, UniqueID } from "cuss2-typescript-models";
+import {
+  AcknowledgementTimeoutError,
+  MessageDroppedError,
+  PlatformDataValidationError,
+  RequestTimeoutError,
+} from "./models/Errors.ts";
+import type { ApplicationData, PlatformData, PlatformDirectives, UniqueID } from "cuss2-typescript-models";
 import { AuthResponse } from "./models/authResponse.ts";
+import { Acknowledgement } from "./models/acknowledgement.ts";
+import { RequestOptions } from "./models/requestOptions.ts";
+import { OutboundQueue, OutboundQueueOptions } from "./outboundQueue.ts";
+import { HeartbeatMonitor, HeartbeatOptions } from "./heartbeat.ts";
+import { Transport, TransportFactory } from "./transport.ts";
+import { clientCredentials, TokenProvider } from "./tokenProvider.ts";
+import { validatePlatformData, ValidationMode } from "./validation.ts";
+import { TypedListen } from "./models/typedEvents.ts";
+import { interceptInbound, Interceptor, interceptOutbound } from "./interceptors.ts";
 import { retry } from "jsr:@std/async/retry";
 
 // const log = console.log
 // Unused parameters are intentionally ignoreddeno cache --clear
 const log = (..._args: unknown[]) => {};
 
-interface ConnectionEvents {
+export interface ConnectionEvents {
   message: [PlatformData];
+  lateResponse: [PlatformData];
+  ack: [Acknowledgement];
+  ping: [{ ping: unknown }];
   error: [unknown];
   close: [CloseEvent];
   open: [];
+  disconnected: [CloseEvent];
+  reconnecting: [number];
+  reconnected: [number];
+  reconnectFailed: [unknown];
+  messageDropped: [MessageDroppedError];
+  stale: [number];
+  alive: [number];
+  tokenRefreshFailed: [unknown];
+  outbound: [ApplicationData];
+  received: [PlatformData];
+  validationError: [PlatformDataValidationError];
 }
 
-// These are needed for overriding during testing
-export const global = {
-  WebSocket: globalThis.WebSocket,
-  fetch: globalThis.fetch,
-  clearTimeout: globalThis.clearTimeout.bind(globalThis),
-  setTimeout: globalThis.setTimeout.bind(globalThis),
-};
+export interface ConnectionOptions {
+  /**
+   * Default milliseconds to wait for a response to any directive, 30000 unless set. `0` waits forever,
+   * which was the behaviour before request timeouts were introduced.
+   */
+  requestTimeout?: number;
+
+  /**
+   * Per-directive overrides of `requestTimeout`
+   */
+  directiveTimeouts?: Partial<Record<PlatformDirectives, number>>;
+
+  /**
+   * Default milliseconds to wait for the platform to acknowledge a request. `0` does not require one.
+   */
+  ackTimeout?: number;
+
+  /**
+   * Buffers outbound messages while the socket is reconnecting and replays them once it reopens.
+   * Disabled unless provided.
+   */
+  queue?: OutboundQueueOptions;
+
+  /**
+   * Watches platform pings and forces a reconnect when they stop arriving.
+   * Disabled unless provided.
+   */
+  heartbeat?: HeartbeatOptions;
+
+  /**
+   * Creates the channel to the platform for each connection attempt. Defaults to a WebSocket.
+   */
+  transport?: TransportFactory;
+
+  /**
+   * Obtains OAuth tokens. Defaults to the `client_credentials` grant against the token URL.
+   */
+  tokenProvider?: TokenProvider;
+
+  /**
+   * Socket close codes meaning the platform rejected the token, which is then renewed before reconnecting
+   */
+  tokenRejectedCodes?: number[];
+
+  /**
+   * How long before the token expires to refresh it: seconds, or a percentage of `expires_in` such as `"10%"`.
+   * Defaults to `"10%"`, and is never less than a second, so failed refreshes can be retried before expiry.
+   */
+  tokenRefreshLead?: number | `${number}%`;
+
+  /**
+   * Checks inbound messages against the CUSS2 model shapes. Defaults to `off`.
+   */
+  validation?: ValidationMode;
+}
+
+/**
+ * A request whose acknowledgement and final response can be awaited separately
+ */
+export interface TrackedRequest {
+  requestID: UniqueID;
+  /**
+   * Resolves when the platform acknowledges the request, or with `undefined` if the
+   * final response arrives without a preceding acknowledgement
+   */
+  accepted: Promise<Acknowledgement | undefined>;
+  response: Promise<PlatformData>;
+}
+
+interface DispatchedRequest {
+  response: Promise<unknown>;
+  accepted?: Promise<Acknowledgement | undefined>;
+}
+
+// Close codes the platform uses when it does not accept the token
+const DEFAULT_TOKEN_REJECTED_CODES = [1008, 4001, 4401, 4403];
+
+// Share of a token's lifetime left when it is refreshed
+const DEFAULT_TOKEN_REFRESH_LEAD = "10%";
+
+// How many abandoned requestIDs are remembered for detecting late responses
+const MAX_ABANDONED_REQUESTS = 100;
 
 export class Connection extends EventEmitter {
-  declare on: <K extends keyof ConnectionEvents>(event: K, listener: (data: PlatformData) => void) => this;
+  // emit stays untyped: responses are dispatched under their requestID
+  declare on: TypedListen<ConnectionEvents, this>;
+  declare once: TypedListen<ConnectionEvents, this>;
+  declare off: TypedListen<ConnectionEvents, this>;
 
   _auth: { url: string; client_id: string; client_secret: string };
   _baseURL: string;
   _socketURL: string;
-  _socket?: WebSocket;
+  _socket?: Transport;
+  _transport: TransportFactory;
   _refresher: ReturnType<typeof setTimeout> | null = null;
+  _tokenProvider: TokenProvider;
+  _tokenRejectedCodes: number[];
+  _tokenRefreshLead: number | `${number}%`;
+  _tokenRejected = false;
+  _validation: ValidationMode;
+  _reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  _reconnecting = false;
+  _closing = false;
   deviceID: UniqueID;
   access_token = "";
   _retryOptions: {
@@ -42,6 +158,24 @@ export class Connection extends EventEmitter {
     multiplier?: number;
     jitter?: number;
   };
+  _requestTimeout: number;
+  _directiveTimeouts: Partial<Record<PlatformDirectives, number>>;
+  _ackTimeout: number;
+  _abandonedRequests: Set<string> = new Set();
+  _queue?: OutboundQueue;
+  _heartbeat?: HeartbeatMonitor;
+  interceptors: Interceptor[] = [];
+  // Keeps platform messages in arrival order while inbound interceptors run
+  _inbound: Promise<void> = Promise.resolve();
+  _inboundPending = 0;
+
+  /**
+   * One-way milliseconds for a ping to reach us, when the heartbeat watchdog is enabled.
+   * See HeartbeatMonitor.pingDelay for the clock-sync assumption.
+   */
+  get pingDelay(): number | undefined {
+    return this._heartbeat?.pingDelay;
+  }
 
   get isOpen() {
     return this._socket && this._socket.readyState === 1; // OPEN
@@ -54,6 +188,7 @@ export class Connection extends EventEmitter {
     client_secret: string,
     tokenURL?: string,
     retryOptions?: typeof Connection.prototype._retryOptions,
+    options: ConnectionOptions = {},
   ) {
     super();
     this.deviceID = deviceID;
@@ -80,37 +215,44 @@ export class Connection extends EventEmitter {
       jitter: 0.25,
       ...retryOptions,
     };
+
+    this._requestTimeout = options.requestTimeout ?? 30000; //ms
+    this._directiveTimeouts = { ...options.directiveTimeouts };
+    this._ackTimeout = options.ackTimeout ?? 0;
+    this._transport = options.transport ?? ((url: string) => new global.WebSocket(url));
+    this._tokenProvider = options.tokenProvider ?? {
+      getToken: () => Connection.authorize(this._auth.url, this._auth.client_id, this._auth.client_secret),
+    };
+    this._tokenRejectedCodes = options.tokenRejectedCodes ?? DEFAULT_TOKEN_REJECTED_CODES;
+    this._tokenRefreshLead = options.tokenRefreshLead ?? DEFAULT_TOKEN_REFRESH_LEAD;
+    this._validation = options.validation ?? "off";
+
+    if (options.queue) {
+      this._queue = new OutboundQueue(options.queue);
+      this._queue.onDrop = (error) => this.emit("messageDropped", error);
+    }
+
+    if (options.heartbeat) {
+      this._heartbeat = new HeartbeatMonitor(options.heartbeat, {
+        setInterval: (callback, ms) => global.setInterval(callback, ms),
+        clearInterval: (id) => global.clearInterval(id),
+      });
+      this._heartbeat.onStale = (silence) => {
+        log("warn", `No ping from the platform for ${silence}ms`);
+        this.emit("stale", silence);
+      };
+      this._heartbeat.onAlive = (silence) => this.emit("alive", silence);
+      this._heartbeat.onDead = (silence) => this._forceReconnect(`No ping for ${silence}ms`);
+    }
   }
 
-  static async authorize(
+  static authorize(
     url: string,
     client_id: string,
     client_secret: string,
   ): Promise<AuthResponse> {
     log("info", `Authorizing client '${client_id}'`, url);
-
-    const params = new URLSearchParams();
-    params.append("client_id", client_id);
-    params.append("client_secret", client_secret);
-    params.append("grant_type", "client_credentials");
-
-    const response = await global.fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      redirect: "follow",
-      body: params.toString(), // Form-encoded data
-    });
-
-    if (response.status === 401) {
-      throw new AuthenticationError("Invalid Credentials", 401);
-    }
-
-    const data = await response.json();
-    return {
-      access_token: data.access_token,
-      expires_in: data.expires_in,
-      token_type: data.token_type,
-    };
+    return clientCredentials({ url, client_id, client_secret }).getToken();
   }
 
   static async connect(
@@ -120,17 +262,26 @@ export class Connection extends EventEmitter {
     client_secret: string,
     tokenURL?: string,
     retryOptions?: typeof Connection.prototype._retryOptions,
+    options?: ConnectionOptions,
   ): Promise<Connection> {
-    using connection = new Connection(
+    const connection = new Connection(
       baseURL,
       deviceID,
       client_id,
       client_secret,
       tokenURL,
       retryOptions,
+      options,
     );
-    await connection._authenticateAndQueueTokenRefresh();
-    await connection._createWebSocketAndAttachEventHandlers();
+    try {
+      await connection._authenticateAndQueueTokenRefresh();
+      await connection._createWebSocketAndAttachEventHandlers();
+    }
+    catch (error) {
+      // Don't leave the token refresh running for a connection nobody gets to close
+      connection.close();
+      throw error;
+    }
     return connection;
   }
 
@@ -165,11 +316,7 @@ export class Connection extends EventEmitter {
     }
 
     try {
-      const access_data = await Connection.authorize(
-        this._auth.url,
-        this._auth.client_id,
-        this._auth.client_secret,
-      );
+      const access_data = await this._tokenProvider.getToken();
 
       this.access_token = access_data.access_token;
       const expires = Math.max(0, access_data.expires_in);
@@ -177,8 +324,8 @@ export class Connection extends EventEmitter {
       if (expires > 0) {
         log("info", `access_token expires in ${expires} seconds`);
         this._refresher = global.setTimeout(
-          () => this._authenticateAndQueueTokenRefresh(),
-          (expires - 1) * 1000,
+          () => this._refreshToken(),
+          this.refreshDelay(expires),
         );
       }
     }
@@ -188,23 +335,66 @@ export class Connection extends EventEmitter {
     }
   }
 
-  _createWebSocketAndAttachEventHandlers(): Promise<boolean> {
+  /**
+   * Milliseconds until a token expiring in `expires` seconds should be refreshed
+   */
+  refreshDelay(expires: number): number {
+    const setting = this._tokenRefreshLead;
+    const lead = typeof setting === "string" ? expires * parseFloat(setting) / 100 : setting;
+    return Math.max(0, expires - Math.max(1, lead)) * 1000;
+  }
+
+  /**
+   * Refreshes the token ahead of expiry, retrying with the connection's backoff until it succeeds
+   */
+  _refreshToken(attempt = 1): Promise<void> {
+    return this._authenticateAndQueueTokenRefresh().catch((error) => {
+      if (this._closing) return;
+      const { minTimeout = 1000, maxTimeout = 64000, multiplier = 2 } = this._retryOptions;
+      const delay = Math.min(maxTimeout, minTimeout * multiplier ** (attempt - 1));
+      log("warn", `Token refresh failed, retrying in ${delay}ms`);
+      this.emit("tokenRefreshFailed", error);
+      this._refresher = global.setTimeout(() => this._refreshToken(attempt + 1), delay);
+    });
+  }
+
+  /**
+   * Replaces a token the platform refused, discarding any cached copy first
+   */
+  async _renewToken(): Promise<void> {
+    this._tokenRejected = false;
+    await this._tokenProvider.invalidate?.();
+    await this._authenticateAndQueueTokenRefresh();
+  }
+
+  _createWebSocketAndAttachEventHandlers(onAttempt?: (attempt: number) => void): Promise<boolean> {
     let retrying = true;
+    let attempt = 0;
 
-    return retry(() =>
-      new Promise<boolean>((resolve, reject) => {
+    return retry(async () => {
+      if (this._tokenRejected && !this._closing) {
+        await this._renewToken();
+      }
+      return new Promise<boolean>((resolve, reject) => {
         if (this.isOpen) {
           log("error", "open socket already exists");
           return resolve(true);
         }
+        // close() was called while we were still trying
+        if (this._closing) {
+          return resolve(false);
+        }
+        onAttempt?.(++attempt);
 
         // This can create synchronous Errors and will reject the promise
-        const socket = new global.WebSocket(this._socketURL);
+        const socket = this._transport(this._socketURL);
 
         socket.onopen = () => {
           log("info", "Socket opened: ", this._socketURL);
           this._socket = socket;
           retrying = false;
+          this._queue?.flush();
+          this._heartbeat?.start();
           resolve(true);
           this.emit("open");
         };
@@ -215,22 +405,41 @@ export class Connection extends EventEmitter {
 
             if (data.ping) {
               socket.send(`{ "pong": ${Date.now()} }`);
+              this._heartbeat?.recordPing(data.ping);
               this.emit("ping", data);
               return;
             }
 
             if (data.ackCode) {
               this.emit("ack", data);
+              const ackRequestID = data.requestID ?? data.meta?.requestID;
+              if (ackRequestID) {
+                this.emit(`ack:${ackRequestID}`, data);
+              }
               return;
             }
 
             log("socket.onmessage", event);
             const platformData = data as PlatformData;
-            this.emit("message", platformData);
-
-            if (platformData?.meta?.requestID) {
-              this.emit(String(platformData.meta.requestID), platformData);
+            // As it arrived, before interceptors or validation get to it
+            if (this.listenerCount("received")) this.emit("received", structuredClone(platformData));
+
+            // Messages still going through interceptors that have since been removed are handled first
+            if (this._inboundPending || this.interceptors.some((i) => i.inbound)) {
+              this._inboundPending++;
+              this._inbound = this._inbound
+                .then(() => interceptInbound(this.interceptors, platformData))
+                .then((intercepted) => this._accept(intercepted))
+                .catch((error) => {
+                  log("error", "Error intercepting message:", error);
+                  // Unlike in the socket handler, an unheard "error" would become an unhandled rejection
+                  if (this.listenerCount("error")) this.emit("error", error);
+                })
+                .finally(() => this._inboundPending--);
+              return;
             }
+
+            this._accept(platformData);
           }
           catch (error) {
             log("error", "Error processing message:", error);
@@ -244,37 +453,266 @@ export class Connection extends EventEmitter {
           socket.onclose = null;
           socket.onerror = null;
           socket.onmessage = null;
+          this._heartbeat?.stop();
 
           this.emit("close", e);
 
           // normal close (probably from calling the close() method)
           if (e.code === 1000) return;
 
+          if (this._tokenRejectedCodes.includes(e.code)) {
+            log("warn", "Platform rejected the access_token");
+            this._tokenRejected = true;
+          }
+
           if (retrying) {
             reject(e); // cause retry to try again
           }
+          else {
+            this._scheduleReconnect(e);
+          }
         };
 
         socket.onerror = (e) => {
           log("Websocket Error:", e);
           this.emit("error", e);
         };
-      }), this._retryOptions);
+      });
+    }, this._retryOptions);
+  }
+
+  /**
+   * Reports a message that doesn't match the CUSS2 models through the `validationError` event
+   */
+  _validate(platformData: PlatformData): PlatformDataValidationError | undefined {
+    if (this._validation === "off") return;
+    const issues = validatePlatformData(platformData);
+    if (!issues.length) return;
+
+    const error = new PlatformDataValidationError(issues, platformData);
+    log("warn", error.message);
+    this.emit("validationError", error);
+    return error;
+  }
+
+  /**
+   * Re-opens the socket after it was lost, reporting progress through the
+   * `disconnected`, `reconnecting`, `reconnected` and `reconnectFailed` events.
+   */
+  _scheduleReconnect(e: CloseEvent) {
+    if (this._reconnecting || this._closing) return;
+    this._reconnecting = true;
+    this.emit("disconnected", e);
+
+    this._reconnectTimer = global.setTimeout(async () => {
+      this._reconnectTimer = null;
+      let attempts = 0;
+      try {
+        const opened = await this._createWebSocketAndAttachEventHandlers((attempt) => {
+          attempts = attempt;
+          log("info", `Reconnecting (attempt ${attempt})`);
+          this.emit("reconnecting", attempt);
+        });
+        if (opened) {
+          this.emit("reconnected", attempts);
+        }
+      }
+      catch (error) {
+        log("error", "Reconnect failed:", error);
+        this.emit("reconnectFailed", error);
+      }
+      finally {
+        this._reconnecting = false;
+      }
+    }, 0);
   }
 
+  /**
+   * True when outbound messages should wait in the queue for the socket to reopen
+   */
+  get _shouldQueue(): boolean {
+    return !!this._queue && !this.isOpen && !this._closing;
+  }
+
+  /**
+   * Drops a socket that has gone silent without waiting for the closing handshake,
+   * which never completes on a half-open connection, and reconnects.
+   */
+  _forceReconnect(reason: string) {
+    const socket = this._socket;
+    if (!socket) return;
+    log("warn", "Forcing reconnect:", reason);
+    const event = { type: "close", code: 4000, reason, wasClean: false } as unknown as CloseEvent;
+    socket.onclose?.(event);
+    socket.close(4000, reason);
+  }
+
+  /**
+   * Sends a message without waiting for a response. Outbound interceptors see it like any request;
+   * a vetoed or failed message is logged, as there is no caller to reject.
+   */
   send(data: ApplicationData) {
-    if (data instanceof Object && !data.meta?.oauthToken) {
-      data.meta.oauthToken = this.access_token;
+    if (this.interceptors.some((i) => i.outbound)) {
+      interceptOutbound(this.interceptors, data)
+        .then((intercepted) => this._post(intercepted))
+        .catch((e) => log("error", "Message not sent:", e));
+      return;
     }
+    this._post(data);
+  }
+
+  /**
+   * Signs and writes a message, or queues it while the socket is reopening
+   */
+  _post(data: ApplicationData) {
     if (data instanceof Object && !data.meta?.deviceID) {
       data.meta.deviceID = this.deviceID;
     }
-    this._socket?.send(JSON.stringify(data));
+    if (this._queue && this._shouldQueue) {
+      this._queue.enqueue(data, () => {
+        // re-sign with the token that is current at replay time
+        data.meta.oauthToken = this.access_token;
+        this._write(data);
+      }).catch((e) => log("error", "Queued message not sent:", e));
+      return;
+    }
+    if (data instanceof Object && !data.meta?.oauthToken) {
+      data.meta.oauthToken = this.access_token;
+    }
+    this._write(data);
+  }
+
+  /**
+   * Validates a platform message once the interceptors are done with it, then delivers it
+   */
+  _accept(platformData: PlatformData) {
+    const invalid = this._validate(platformData);
+    if (invalid && this._validation === "strict") {
+      const requestID = platformData?.meta?.requestID;
+      if (requestID) {
+        this.emit(`invalid:${requestID}`, invalid);
+      }
+      return;
+    }
+    this._deliver(platformData);
+  }
+
+  /**
+   * Hands a platform message to whoever is waiting for it
+   */
+  _deliver(platformData: PlatformData) {
+    const requestID = platformData?.meta?.requestID;
+
+    // The caller already gave up on this response
+    if (requestID && this._abandonedRequests.delete(String(requestID))) {
+      this.emit("lateResponse", platformData);
+      this.emit("message", platformData);
+      return;
+    }
+
+    this.emit("message", platformData);
+
+    if (requestID) {
+      this.emit(String(requestID), platformData);
+    }
+  }
+
+  /**
+   * Registers middleware for outbound requests and inbound platform messages. Interceptors run in
+   * registration order. Returns a function that unregisters it.
+   */
+  use(interceptor: Interceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      const index = this.interceptors.indexOf(interceptor);
+      if (index >= 0) this.interceptors.splice(index, 1);
+    };
+  }
+
+  /**
+   * Puts a message on the wire, announcing it through the `outbound` event first
+   */
+  _write(data: ApplicationData) {
+    if (!this._socket) return;
+    this.emit("outbound", data);
+    this._socket.send(JSON.stringify(data));
   }
 
   async sendAndGetResponse(
     applicationData: ApplicationData,
+    options: RequestOptions = {},
   ): Promise<PlatformData> {
+    options.signal?.throwIfAborted();
+    const { response, accepted } = await this._send(applicationData, options, false);
+    // A missing acknowledgement fails the request before the response timeout does
+    const message = (await (accepted ? Promise.race([response, accepted.then(() => response)]) : response));
+    return this._checkResponse(message as PlatformData);
+  }
+
+  /**
+   * Sends a request whose acknowledgement ("accepted by the platform") and final response
+   * are awaited separately, so a lost request can be told apart from a slow device.
+   */
+  sendAndTrack(applicationData: ApplicationData, options: RequestOptions = {}): TrackedRequest {
+    const dispatched = options.signal?.aborted
+      ? Promise.reject(options.signal.reason)
+      : this._send(applicationData, options, true);
+    const accepted = dispatched.then((d) => d.accepted as Promise<Acknowledgement | undefined>);
+    const response = dispatched.then(async (d) => this._checkResponse((await d.response) as PlatformData));
+    // Callers often await only one of the two; the other's failure must not go unhandled
+    accepted.catch(() => {});
+    response.catch(() => {});
+    return { requestID: applicationData.meta.requestID, accepted, response };
+  }
+
+  _checkResponse(message: PlatformData): PlatformData {
+    const messageCode = message.meta?.messageCode;
+    if (messageCode && helpers.isNonCritical(messageCode)) {
+      return message;
+    }
+    else {
+      throw new PlatformResponseError(message);
+    }
+  }
+
+  /**
+   * Runs a request through the outbound interceptors before sending it
+   */
+  _send(applicationData: ApplicationData, options: RequestOptions, trackAck: boolean): Promise<DispatchedRequest> {
+    if (this.interceptors.some((i) => i.outbound)) {
+      return interceptOutbound(this.interceptors, applicationData)
+        .then((intercepted) => this._queueOrDispatch(intercepted, options, trackAck));
+    }
+    return this._queueOrDispatch(applicationData, options, trackAck);
+  }
+
+  /**
+   * Sends a request now, or once the socket reopens when the outbound queue is enabled
+   */
+  _queueOrDispatch(
+    applicationData: ApplicationData,
+    options: RequestOptions,
+    trackAck: boolean,
+  ): Promise<DispatchedRequest> {
+    if (this._queue && this._shouldQueue) {
+      return this._queue.enqueue(
+        applicationData,
+        () => this._dispatch(applicationData, options, trackAck),
+        options.signal,
+      );
+    }
+    try {
+      return Promise.resolve(this._dispatch(applicationData, options, trackAck));
+    }
+    catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  /**
+   * Signs and sends a request, returning promises for its acknowledgement and response
+   */
+  _dispatch(applicationData: ApplicationData, options: RequestOptions, trackAck: boolean): DispatchedRequest {
     if (!this._socket) {
       throw new Error("WebSocket is not connected");
     }
@@ -284,16 +722,29 @@ export class Connection extends EventEmitter {
     if ((meta.deviceID == null || meta.deviceID == "00000000-0000-0000-0000-000000000000") && this.deviceID != null) {
       meta.deviceID = this.deviceID;
     }
-    const promise = this.waitFor(reqId);
-    this._socket.send(JSON.stringify(applicationData));
-    const message = (await promise) as PlatformData;
-    const messageCode = message.meta?.messageCode;
-    if (messageCode && helpers.isNonCritical(messageCode)) {
-      return message;
-    }
-    else {
-      throw new PlatformResponseError(message);
-    }
+    const ackTimeout = options.ackTimeout ?? this._ackTimeout;
+    // Without tracking, a failed acknowledgement fails the whole request, so stop waiting for its response
+    const ackFailed = !trackAck && ackTimeout > 0 ? new AbortController() : undefined;
+    const signals = [options.signal, ackFailed?.signal].filter((s): s is AbortSignal => s != null);
+    const response = this.waitFor(reqId, {
+      timeout: options.timeout ?? this.timeoutFor(meta.directive),
+      signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0],
+      directive: meta.directive,
+    });
+    const accepted = trackAck || ackTimeout > 0
+      ? this.waitForAck(reqId, { timeout: ackTimeout, signal: options.signal, directive: meta.directive })
+      : undefined;
+    // Rejections are surfaced through the response; don't report them as unhandled
+    accepted?.catch((e) => ackFailed?.abort(e));
+    this._write(applicationData);
+    return { response, accepted };
+  }
+
+  /**
+   * Milliseconds to wait for the response to a directive, `0` meaning forever
+   */
+  timeoutFor(directive?: PlatformDirectives): number {
+    return directive ? this._directiveTimeouts[directive] ?? this._requestTimeout : this._requestTimeout;
   }
 
   close(code?: number, reason?: string): void {
@@ -301,22 +752,118 @@ export class Connection extends EventEmitter {
       global.clearTimeout(this._refresher);
       this._refresher = null;
     }
+    if (this._reconnectTimer) {
+      global.clearTimeout(this._reconnectTimer);
+      this._reconnectTimer = null;
+      this._reconnecting = false;
+    }
+    this._closing = true;
+    this._queue?.clear();
+    this._heartbeat?.stop();
 
     this._socket?.close(code, reason);
   }
 
-  waitFor(event: string) {
+  waitFor(
+    event: string,
+    options: { timeout?: number; signal?: AbortSignal; directive?: PlatformDirectives } = {},
+  ) {
+    const { timeout = 0, signal, directive } = options;
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        return reject(signal.reason);
+      }
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const settle = () => {
+        if (timer) global.clearTimeout(timer);
+        signal?.removeEventListener("abort", aborter);
+        super.off(`invalid:${event}`, catcher);
+      };
       const resolver = (e: unknown) => {
+        settle();
         this.off("close", catcher);
         resolve(e);
       };
       const catcher = (e: unknown) => {
-        this.off(event, resolver);
+        settle();
+        super.off(event, resolver);
+        this.off("close", catcher);
         reject(e);
       };
-      this.once(event, resolver);
+      // Stop waiting, remembering the event so a late response can be told apart
+      const abandon = (reason: unknown) => {
+        this.off("close", catcher);
+        this._abandonedRequests.add(event);
+        if (this._abandonedRequests.size > MAX_ABANDONED_REQUESTS) {
+          const [oldest] = this._abandonedRequests;
+          this._abandonedRequests.delete(oldest);
+        }
+        catcher(reason);
+      };
+      const aborter = () => abandon(signal?.reason);
+
+      super.once(event, resolver);
       this.once("close", catcher);
+      // A response that failed strict validation
+      super.once(`invalid:${event}`, catcher);
+      signal?.addEventListener("abort", aborter, { once: true });
+      if (timeout > 0) {
+        timer = global.setTimeout(() => abandon(new RequestTimeoutError(event, timeout, directive)), timeout);
+      }
+    });
+  }
+
+  /**
+   * Waits for the platform to acknowledge a request. Resolves with `undefined` if the response
+   * arrives first, since that also proves the request was received.
+   */
+  waitForAck(
+    requestID: string,
+    options: { timeout?: number; signal?: AbortSignal; directive?: PlatformDirectives } = {},
+  ): Promise<Acknowledgement | undefined> {
+    const { timeout = 0, signal, directive } = options;
+    const ackEvent = `ack:${requestID}`;
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        return reject(signal.reason);
+      }
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const settle = () => {
+        if (timer) global.clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        super.off(ackEvent, onAck);
+        super.off(requestID, onResponse);
+        this.off("close", onClose);
+      };
+      const onAck = (ack: Acknowledgement) => {
+        settle();
+        resolve(ack);
+      };
+      const onResponse = () => {
+        settle();
+        resolve(undefined);
+      };
+      const onClose = (e: unknown) => {
+        settle();
+        reject(e);
+      };
+      const onAbort = () => {
+        settle();
+        reject(signal?.reason);
+      };
+
+      super.once(ackEvent, onAck);
+      super.once(requestID, onResponse);
+      this.once("close", onClose);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (timeout > 0) {
+        timer = global.setTimeout(() => {
+          settle();
+          reject(new AcknowledgementTimeoutError(requestID, timeout, directive));
+        }, timeout);
+      }
     });
   }
 
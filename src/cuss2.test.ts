@@ -0,0 +1,589 @@
+import { assertEquals, assertRejects, assertThrows } from "jsr:@std/assert";
+import {
+  ApplicationActivation,
+  ApplicationActivationExecutionModeEnum,
+  ApplicationData,
+  ApplicationStateCodes as AppState,
+  ComponentState,
+  ComponentTypes,
+  CUSSDataTypes,
+  DeviceTypes,
+  MediaTypes,
+  MessageCodes,
+  PlatformDirectives,
+} from "cuss2-typescript-models";
+import { Cuss2, Cuss2Options } from "./cuss2.ts";
+import { SessionSummary } from "./passengerSession.ts";
+import { BarcodeReader } from "./models/BarcodeReader.ts";
+import { Component } from "./models/Component.ts";
+import { KioskProfile, MockComponent, MockPlatform } from "./mockPlatform.ts";
+import { ApplicationStateError, ApplicationTransferError, IllegalStateTransitionError } from "./models/Errors.ts";
+import { ManualClock } from "./scenario.ts";
+import { PlatformResponseError } from "./models/platformResponseError.ts";
+
+const barcodeReader = (componentID: number, componentDescription?: string) => ({
+  componentID,
+  componentDescription,
+  componentType: ComponentTypes.DATAINPUT,
+  componentCharacteristics: [{ dsTypesList: [CUSSDataTypes.BARCODE] }],
+}) as MockComponent;
+
+const keypad = (componentID: number) => ({
+  componentID,
+  componentType: ComponentTypes.DATAINPUT,
+  componentCharacteristics: [{ dsTypesList: [CUSSDataTypes.KEY, CUSSDataTypes.KEYUP, CUSSDataTypes.KEYDOWN] }],
+}) as MockComponent;
+
+const headset = (componentID: number) => ({
+  componentID,
+  componentType: ComponentTypes.MEDIAINPUT,
+  componentCharacteristics: [{ deviceTypesList: [DeviceTypes.ASSISTIVE], mediaTypesList: [MediaTypes.AUDIO] }],
+}) as MockComponent;
+
+const announcement = (componentID: number) => ({
+  componentID,
+  componentType: ComponentTypes.ANNOUNCEMENT,
+  componentCharacteristics: [{}],
+}) as MockComponent;
+
+const illumination = (componentID: number) => ({
+  componentID,
+  componentType: ComponentTypes.USEROUTPUT,
+  componentCharacteristics: [{ deviceTypesList: [DeviceTypes.ILLUMINATION] }],
+}) as MockComponent;
+
+const printer = (componentID: number, linkedComponentIDs: number[], mediaType: MediaTypes) => ({
+  componentID,
+  componentType: ComponentTypes.DATAOUTPUT,
+  componentCharacteristics: [{ deviceTypesList: [DeviceTypes.PRINT], mediaTypesList: [mediaType] }],
+  linkedComponentIDs,
+}) as MockComponent;
+
+const boardingPassPrinter = (componentID: number, linkedComponentIDs: number[]) => {
+  return printer(componentID, linkedComponentIDs, MediaTypes.BOARDINGPASS);
+};
+
+const subcomponent = (componentID: number, componentType: ComponentTypes, componentDescription?: string) => ({
+  componentID,
+  componentType,
+  componentDescription,
+  componentCharacteristics: [{}],
+}) as MockComponent;
+
+const connect = async (profile: KioskProfile, options: Cuss2Options = {}) => {
+  const platform = new MockPlatform({ pingInterval: 0, ...profile });
+  const cuss2 = await Cuss2.connect("https://kiosk.example", undefined, "client", "secret", undefined, {
+    transport: platform.transport(),
+    tokenProvider: platform.tokenProvider(),
+    ...options,
+  });
+  return { platform, cuss2 };
+};
+
+const directives = (platform: MockPlatform) => platform.requests.map((r) => r.meta.directive);
+
+// Resolves once the platform has answered a request with the directive
+const answered = (platform: MockPlatform, directive: PlatformDirectives) => {
+  return new Promise<void>((resolve) => {
+    const onResponse = (_response: unknown, request: ApplicationData) => {
+      if (request.meta.directive !== directive) return;
+      platform.off("response", onResponse);
+      resolve();
+    };
+    platform.on("response", onResponse);
+  });
+};
+
+// Brings the application to ACTIVE, as when a passenger starts a session
+const activate = async (platform: MockPlatform, cuss2: Cuss2, activation?: ApplicationActivation) => {
+  await cuss2.requestAvailableState();
+  const activated = new Promise((resolve) => cuss2.once("activated", resolve));
+  platform.activate(activation);
+  await activated;
+};
+
+Deno.test("Cuss2 should re-initialize and restore the requested state after a reconnect", async () => {
+  const { platform, cuss2 } = await connect({ components: [barcodeReader(1)] });
+  await cuss2.requestAvailableState();
+  assertEquals(cuss2.state, AppState.AVAILABLE);
+
+  // The platform lost track of the application while the connection was down
+  platform.state = AppState.INITIALIZE;
+  platform.requests = [];
+  const reconnected = new Promise((resolve) => cuss2.once("reconnected", resolve));
+  platform.close(1006, "Connection lost");
+  assertEquals(await reconnected, 1);
+
+  assertEquals(directives(platform).slice(0, 3), [
+    PlatformDirectives.PlatformEnvironment,
+    PlatformDirectives.PlatformComponents,
+    PlatformDirectives.PeripheralsQuery,
+  ]);
+  assertEquals(cuss2.state, AppState.AVAILABLE);
+  assertEquals(platform.state, AppState.AVAILABLE);
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 should fall back to AVAILABLE when ACTIVE was requested before a reconnect", async () => {
+  const { platform, cuss2 } = await connect({ components: [barcodeReader(1)] });
+  await cuss2.requestAvailableState();
+  await cuss2.requestActiveState();
+  assertEquals(cuss2.state, AppState.ACTIVE);
+
+  platform.state = AppState.UNAVAILABLE;
+  const reconnected = new Promise((resolve) => cuss2.once("reconnected", resolve));
+  platform.close(1006, "Connection lost");
+  await reconnected;
+  assertEquals(cuss2.state, AppState.AVAILABLE);
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 dispose should disable components, request STOPPED and release every listener", async () => {
+  const { platform, cuss2 } = await connect({ components: [barcodeReader(1)] });
+  await activate(platform, cuss2);
+  const reader = cuss2.barcodeReader!;
+  await reader.enable();
+  reader.on("data", () => {});
+
+  const connection = cuss2.connection;
+  const closed = new Promise<CloseEvent>((resolve) => connection.once("close", resolve));
+  let disposed = false;
+  cuss2.on("disposed", () => disposed = true);
+  platform.requests = [];
+  await cuss2.dispose({ requestStopped: true });
+
+  assertEquals(directives(platform), [
+    PlatformDirectives.PeripheralsUserpresentDisable,
+    PlatformDirectives.PlatformApplicationsStaterequest,
+  ]);
+  assertEquals(platform.state, AppState.STOPPED);
+  assertEquals((await closed).code, 1000);
+  assertEquals(disposed, true);
+
+  assertEquals(cuss2.components, undefined);
+  assertEquals(reader.listenerCount("data"), 0);
+  assertEquals(cuss2.listenerCount("disposed"), 0);
+  for (const event of ["message", "outbound", "disconnected", "reconnecting", "reconnected", "validationError"]) {
+    assertEquals(connection.listenerCount(event), 0, event);
+  }
+});
+
+Deno.test("Cuss2 transferTo should only transfer an ACTIVE session", async () => {
+  const { platform, cuss2 } = await connect({ components: [barcodeReader(1)] });
+  await cuss2.requestAvailableState();
+
+  await assertRejects(() => cuss2.transferTo("other-app"), ApplicationStateError);
+  assertEquals(directives(platform).includes(PlatformDirectives.PlatformApplicationsTransferrequest), false);
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 transferTo should disable our components before requesting the transfer", async () => {
+  const { platform, cuss2 } = await connect({ components: [barcodeReader(1)] });
+  await activate(platform, cuss2);
+  await cuss2.barcodeReader!.enable();
+  const transferred: string[] = [];
+  cuss2.on("transferred", (target) => transferred.push(target));
+
+  platform.requests = [];
+  await cuss2.transferTo("other-app", "{\"pnr\":\"ABC123\"}");
+  assertEquals(directives(platform), [
+    PlatformDirectives.PeripheralsUserpresentDisable,
+    PlatformDirectives.PlatformApplicationsTransferrequest,
+  ]);
+  assertEquals(cuss2.barcodeReader!.enabled, false);
+  assertEquals(transferred, ["other-app"]);
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 should stay ACTIVE after a refused transfer so components can be re-enabled", async () => {
+  const { platform, cuss2 } = await connect({ components: [barcodeReader(1)] });
+  platform.respond = (request) => {
+    const response = MockPlatform.prototype.respond.call(platform, request);
+    if (request.meta.directive === PlatformDirectives.PlatformApplicationsTransferrequest) {
+      response.meta.messageCode = MessageCodes.WRONGAPPLICATIONSTATE;
+    }
+    return response;
+  };
+  await activate(platform, cuss2);
+  const reader = cuss2.barcodeReader!;
+  await reader.enable();
+
+  let reenabled: Promise<unknown> | undefined;
+  cuss2.on("transferFailed", () => reenabled = reader.enable());
+  const error = await assertRejects(() => cuss2.transferTo("other-app"), ApplicationTransferError);
+  assertEquals(error.targetApplicationID, "other-app");
+  assertEquals((error.cause as PlatformResponseError).messageCode, MessageCodes.WRONGAPPLICATIONSTATE);
+
+  await reenabled;
+  assertEquals(cuss2.state, AppState.ACTIVE);
+  assertEquals(reader.enabled, true);
+  assertEquals(platform.enabled.has(1), true);
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 should emit transferReceived when activated with transfer data", async () => {
+  const { platform, cuss2 } = await connect({ components: [barcodeReader(1)] });
+  const received = new Promise<[string, ApplicationActivation]>((resolve) => {
+    cuss2.once("transferReceived", (transferData, activation) => resolve([transferData, activation]));
+  });
+  const activation = { languageID: "de-DE", transferData: "{\"pnr\":\"ABC123\"}" } as ApplicationActivation;
+  await activate(platform, cuss2, activation);
+
+  const [transferData, receivedActivation] = await received;
+  assertEquals(transferData, "{\"pnr\":\"ABC123\"}");
+  assertEquals(receivedActivation.languageID, "de-DE");
+  assertEquals(cuss2.transferData, transferData);
+  assertEquals(cuss2.language, "de-DE");
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 should enable the keypad and headset and acknowledge an accessible session", async () => {
+  const { platform, cuss2 } = await connect({ components: [barcodeReader(1), keypad(2), headset(3)] });
+  const changes: boolean[] = [];
+  cuss2.on("accessibleModeChanged", (accessibleMode) => changes.push(accessibleMode));
+  const acknowledged = answered(platform, PlatformDirectives.PlatformApplicationsAcknowledgeAccessible);
+
+  await activate(platform, cuss2, { accessibleMode: true } as ApplicationActivation);
+  await acknowledged;
+  assertEquals(changes, [true]);
+  assertEquals(cuss2.accessibleMode, true);
+  assertEquals([...platform.enabled].sort(), [2, 3]);
+  assertEquals(cuss2.keypad!.enabled && cuss2.headset!.enabled, true);
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 should follow a switch to accessible mode in the middle of a session", async () => {
+  const { platform, cuss2 } = await connect({ components: [barcodeReader(1), keypad(2), headset(3)] });
+  const changes: boolean[] = [];
+  cuss2.on("accessibleModeChanged", (accessibleMode) => changes.push(accessibleMode));
+  await activate(platform, cuss2);
+  assertEquals(changes, []);
+  assertEquals(platform.enabled.size, 0);
+
+  // The passenger plugs in the headset: the next message reports accessible mode
+  const acknowledged = answered(platform, PlatformDirectives.PlatformApplicationsAcknowledgeAccessible);
+  platform.accessibleMode = true;
+  platform.setComponentState(3, ComponentState.READY);
+  await acknowledged;
+  assertEquals(changes, [true]);
+  assertEquals([...platform.enabled].sort(), [2, 3]);
+
+  const switchedBack = new Promise((resolve) => cuss2.once("accessibleModeChanged", resolve));
+  platform.accessibleMode = false;
+  platform.setComponentState(3, ComponentState.READY);
+  assertEquals(await switchedBack, false);
+  assertEquals(cuss2.accessibleMode, false);
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 should leave an accessible session to the application when auto-start is off", async () => {
+  const { platform, cuss2 } = await connect({ components: [keypad(2), headset(3)] });
+  cuss2.autoStartAccessibleSession = false;
+  await activate(platform, cuss2, { accessibleMode: true } as ApplicationActivation);
+  // Let any automatic requests reach the platform
+  await new Promise((resolve) => setTimeout(resolve, 0));
+
+  assertEquals(cuss2.accessibleMode, true);
+  assertEquals(platform.enabled.size, 0);
+  assertEquals(directives(platform).includes(PlatformDirectives.PlatformApplicationsAcknowledgeAccessible), false);
+
+  await cuss2.dispose();
+});
+
+const requestedStates = (platform: MockPlatform) => {
+  return platform.requests
+    .filter((r) => r.meta.directive === PlatformDirectives.PlatformApplicationsStaterequest)
+    .map((r) => r.payload?.applicationState?.applicationStateCode);
+};
+
+Deno.test("Cuss2 should send one request for overlapping requests of the same state", async () => {
+  const { platform, cuss2 } = await connect({ components: [barcodeReader(1)] });
+
+  const [first, second] = await Promise.all([
+    cuss2.api.staterequest(AppState.UNAVAILABLE),
+    cuss2.api.staterequest(AppState.UNAVAILABLE),
+  ]);
+  assertEquals(first, second);
+  assertEquals(requestedStates(platform), [AppState.UNAVAILABLE]);
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 should send queued state requests in order, each checked against the state before it", async () => {
+  const { platform, cuss2 } = await connect({ components: [barcodeReader(1)] });
+
+  // AVAILABLE can't be requested from INITIALIZE, but it is only checked once UNAVAILABLE was reached
+  await Promise.all([
+    cuss2.api.staterequest(AppState.UNAVAILABLE),
+    cuss2.api.staterequest(AppState.AVAILABLE),
+  ]);
+  assertEquals(requestedStates(platform), [AppState.UNAVAILABLE, AppState.AVAILABLE]);
+  assertEquals(cuss2.state, AppState.AVAILABLE);
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 should reject an illegal state request without sending it or blocking the queue", async () => {
+  const { platform, cuss2 } = await connect({ components: [barcodeReader(1)] });
+
+  const illegal = cuss2.api.staterequest(AppState.ACTIVE);
+  const next = cuss2.api.staterequest(AppState.UNAVAILABLE);
+  const error = await assertRejects(() => illegal, IllegalStateTransitionError);
+  assertEquals(error.state, AppState.INITIALIZE);
+  assertEquals(error.requested, AppState.ACTIVE);
+
+  await next;
+  assertEquals(requestedStates(platform), [AppState.UNAVAILABLE]);
+  assertEquals(cuss2._queuedStateRequests.size, 0);
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 requestReload should resolve false when RELOAD can't be requested", async () => {
+  const { platform, cuss2 } = await connect({ components: [barcodeReader(1)] });
+
+  assertEquals(await cuss2.requestReload(), false);
+  assertEquals(requestedStates(platform), []);
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 should clean up the components a session used before reporting that it ended", async () => {
+  const { platform, cuss2 } = await connect({ components: [barcodeReader(1), announcement(4), illumination(5)] });
+  await activate(platform, cuss2);
+  await cuss2.barcodeReader!.enable();
+  await cuss2.announcement!.say("Welcome");
+  await cuss2.illumination!.enable(0, "green");
+
+  platform.requests = [];
+  const ended = new Promise<[PlatformDirectives[], SessionSummary]>((resolve) => {
+    cuss2.once("sessionEnded", (summary) => resolve([directives(platform), summary]));
+  });
+  platform.deactivate();
+  const [cleanup, summary] = await ended;
+
+  assertEquals(cleanup, [
+    PlatformDirectives.PeripheralsCancel,
+    PlatformDirectives.PeripheralsUserpresentDisable,
+    PlatformDirectives.PeripheralsAnnouncementStop,
+    PlatformDirectives.PeripheralsUserpresentDisable,
+  ]);
+  assertEquals(platform.requests.map((r) => Number(r.meta.componentID)), [1, 1, 4, 5]);
+  assertEquals(summary.componentsUsed, [1, 4, 5]);
+  assertEquals(cuss2.session, undefined);
+  assertEquals(cuss2.state, AppState.AVAILABLE);
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 should only infer component ownership from unsolicited messages when asked to", async () => {
+  const { platform, cuss2 } = await connect({ components: [barcodeReader(1)] });
+  const executionMode = ApplicationActivationExecutionModeEnum.MAM;
+  await activate(platform, cuss2, { executionMode } as ApplicationActivation);
+  assertEquals(cuss2.multiTenant, true);
+  const reader = cuss2.barcodeReader!;
+
+  // Without the platform-specific heuristic, the status says nothing about who holds the reader
+  platform.setComponentState(1, ComponentState.READY, MessageCodes.WRONGAPPLICATIONSTATE);
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assertEquals(reader.owner, "none");
+
+  cuss2.inferComponentOwnership = true;
+  await reader.enable();
+  assertEquals(reader.owner, "application");
+  // A READY status doesn't take away a component we hold
+  platform.setComponentState(1, ComponentState.READY);
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assertEquals(reader.owner, "application");
+
+  const taken = new Promise((resolve) => reader.once("ownershipChange", resolve));
+  platform.setComponentState(1, ComponentState.READY, MessageCodes.WRONGAPPLICATIONSTATE);
+  assertEquals(await taken, "other");
+  const released = new Promise((resolve) => reader.once("ownershipChange", resolve));
+  platform.setComponentState(1, ComponentState.READY);
+  assertEquals(await released, "none");
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 refreshComponents should only create, destroy and replace what changed", async () => {
+  const { platform, cuss2 } = await connect({ components: [barcodeReader(1), barcodeReader(2, "Lower"), keypad(3)] });
+  const [first, second, pad] = [1, 2, 3].map((id) => cuss2.components![id]);
+  second.on("statusChange", () => {});
+  const events: string[] = [];
+  cuss2.on("componentAdded", (c) => events.push(`added:${c.id}`));
+  cuss2.on("componentRemoved", (c) => events.push(`removed:${c.id}`));
+  cuss2.on("componentChanged", (c, previous) => events.push(`changed:${c.id}:${previous === second}`));
+
+  assertEquals(await cuss2.refreshComponents(), { added: [], removed: [], changed: [] });
+
+  platform.profile.components = [barcodeReader(1), barcodeReader(2, "Upper"), headset(4)];
+  platform.componentStates.set(4, ComponentState.READY);
+  const diff = await cuss2.refreshComponents();
+
+  assertEquals(diff.added.map((c) => c.id), [4]);
+  assertEquals(diff.removed, [pad]);
+  assertEquals(diff.changed.map((c) => c.id), [2]);
+  assertEquals(events.sort(), ["added:4", "changed:2:true", "removed:3"]);
+  // Unchanged components keep their instance, changed ones are replaced and the old instance let go
+  assertEquals(cuss2.components![1], first);
+  assertEquals(cuss2.components![2], diff.changed[0]);
+  assertEquals(second.listenerCount("statusChange"), 0);
+  assertEquals(cuss2.keypad, undefined);
+  assertEquals(cuss2.headset, diff.added[0]);
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 refreshComponents should rebuild a printer with its feeder and dispenser", async () => {
+  const { platform, cuss2 } = await connect({
+    components: [
+      barcodeReader(1),
+      boardingPassPrinter(10, [11, 12]),
+      subcomponent(11, ComponentTypes.FEEDER),
+      subcomponent(12, ComponentTypes.DISPENSER),
+    ],
+  });
+  const reader = cuss2.barcodeReader;
+
+  // Only the feeder changed, but the printer holds on to it
+  platform.profile.components = [
+    barcodeReader(1),
+    boardingPassPrinter(10, [11, 12]),
+    subcomponent(11, ComponentTypes.FEEDER, "Second paper tray"),
+    subcomponent(12, ComponentTypes.DISPENSER),
+  ];
+  const diff = await cuss2.refreshComponents();
+
+  assertEquals(diff.changed.map((c) => c.id).sort(), [10, 11, 12]);
+  assertEquals(cuss2.barcodeReader, reader);
+  const printer = cuss2.boardingPassPrinter!;
+  assertEquals(diff.changed.includes(printer), true);
+  assertEquals(printer.feeder, cuss2.components![11]);
+  assertEquals(printer.dispenser, cuss2.components![12]);
+
+  await cuss2.dispose();
+});
+
+// Two scanners, and a boarding pass and a bag tag printer with their feeders and dispensers
+const sharedKiosk = [
+  barcodeReader(3, "Upper scanner"),
+  barcodeReader(1, "Lower scanner"),
+  boardingPassPrinter(10, [11, 12]),
+  subcomponent(11, ComponentTypes.FEEDER),
+  subcomponent(12, ComponentTypes.DISPENSER),
+  printer(20, [21, 22], MediaTypes.BAGGAGETAG),
+  subcomponent(21, ComponentTypes.FEEDER),
+  subcomponent(22, ComponentTypes.DISPENSER),
+];
+
+Deno.test("Cuss2 should list every component of a kind and find them by ID or description", async () => {
+  const { cuss2 } = await connect({ components: sharedKiosk });
+  const ids = (components: Component[]) => components.map((c) => c.id);
+
+  assertEquals(ids(cuss2.barcodeReaders), [1, 3]);
+  assertEquals(ids(cuss2.printers.boardingPass), [10]);
+  assertEquals(ids(cuss2.printers.bagTag), [20]);
+  assertEquals(cuss2.documentReaders, []);
+  assertEquals(ids(cuss2.componentsOf(BarcodeReader)), [1, 3]);
+
+  assertEquals(cuss2.getComponent(3), cuss2.barcodeReaders[1]);
+  assertEquals(cuss2.getComponent("Upper scanner"), cuss2.barcodeReaders[1]);
+  assertEquals(cuss2.getComponent("Side scanner"), undefined);
+  assertEquals(cuss2.getComponent(99), undefined);
+
+  // The lowest componentID is the primary by default
+  assertEquals(cuss2.barcodeReader?.id, 1);
+  assertEquals(cuss2.boardingPassPrinter?.id, 10);
+  assertEquals(cuss2.bagTagPrinter?.id, 20);
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 should choose primaries by policy and keep the ones set with setPrimary", async () => {
+  const last = await connect({ components: sharedKiosk }, { primarySelection: "last" });
+  assertEquals(last.cuss2.barcodeReader?.id, 3);
+  await last.cuss2.dispose();
+
+  const asked: string[] = [];
+  const { platform, cuss2 } = await connect({ components: sharedKiosk }, {
+    primarySelection: (candidates, property) => {
+      asked.push(property);
+      return candidates.find((c) => c._component.componentDescription === "Upper scanner") ?? candidates[0];
+    },
+  });
+  assertEquals(cuss2.barcodeReader?.id, 3);
+  assertEquals(cuss2.boardingPassPrinter?.id, 10);
+  assertEquals(asked.includes("barcodeReader"), true);
+
+  cuss2.setPrimary(cuss2.getComponent("Lower scanner")!);
+  assertEquals(cuss2.barcodeReader?.id, 1);
+  assertThrows(() => cuss2.setPrimary(cuss2.getComponent(11)!), TypeError);
+
+  // The choice survives the component being rebuilt
+  const [upper, _lower, ...printers] = sharedKiosk;
+  platform.profile.components = [upper, barcodeReader(1, "Lower scanner (serviced)"), ...printers];
+  await cuss2.refreshComponents();
+  assertEquals(cuss2.barcodeReader?.id, 1);
+  assertEquals(cuss2.barcodeReader, cuss2.getComponent(1));
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 should warn and respond halfway through the platform's kill timeout", async () => {
+  const clock = new ManualClock();
+  const { platform, cuss2 } = await connect(
+    { components: [barcodeReader(1)], environment: { killTimeout: 1000 } as KioskProfile["environment"] },
+    { killTimeout: { timers: clock } },
+  );
+  const warnings: [AppState, number][] = [];
+  cuss2.on("killTimeoutWarning", (expected, remaining) => warnings.push([expected, remaining]));
+
+  // The platform put the application into INITIALIZE when it connected
+  await clock.tick(499);
+  assertEquals(warnings, []);
+  await clock.tick(1);
+  assertEquals(warnings, [[AppState.UNAVAILABLE, 500]]);
+  await clock.tick();
+  assertEquals(cuss2.state, AppState.UNAVAILABLE);
+
+  // RELOAD has to be answered with STOPPED
+  platform.setState(AppState.RELOAD);
+  await clock.tick(500);
+  assertEquals(warnings[1], [AppState.STOPPED, 500]);
+  await clock.tick();
+  assertEquals(platform.state, AppState.STOPPED);
+
+  await cuss2.dispose();
+});
+
+Deno.test("Cuss2 should stop watching the kill timeout once the expected state is requested", async () => {
+  const clock = new ManualClock();
+  const expectedResponses = { [AppState.SUSPENDED]: AppState.STOPPED };
+  const { platform, cuss2 } = await connect(
+    { components: [barcodeReader(1)], environment: { killTimeout: 1000 } as KioskProfile["environment"] },
+    { killTimeout: { timers: clock, autoRespond: false, expectedResponses } },
+  );
+  const warnings: AppState[] = [];
+  cuss2.on("killTimeoutWarning", (expected) => warnings.push(expected));
+
+  await cuss2.requestUnavailableState();
+  await clock.tick(1000);
+  assertEquals(warnings, []);
+
+  platform.setState(AppState.SUSPENDED);
+  await clock.tick(500);
+  assertEquals(warnings, [AppState.STOPPED]);
+  // Without autoRespond the application decides what to do
+  assertEquals(platform.state, AppState.SUSPENDED);
+
+  await cuss2.dispose();
+});
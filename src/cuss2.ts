@@ -1,9 +1,13 @@
+import { global } from "./global.ts";
 import { Build, log } from "./helper.ts";
 import { EventEmitter } from "events";
 
-import { Connection } from "./connection.ts";
+import { Connection, ConnectionOptions } from "./connection.ts";
 import { StateChange } from "./models/stateChange.ts";
-import { ComponentInterrogation } from "./componentInterrogation.ts";
+import { ComponentFactory, ComponentRegistry } from "./componentRegistry.ts";
+import { ComponentQuery } from "./componentQuery.ts";
+import { Environment, PLATFORM_EXPECTED_RESPONSES } from "./environment.ts";
+import { Interceptor } from "./interceptors.ts";
 import {
   AEASBD,
   Announcement,
@@ -15,9 +19,7 @@ import {
   Camera,
   CardReader,
   Component,
-  Dispenser,
   DocumentReader,
-  Feeder,
   Headset,
   Illumination,
   InsertionBelt,
@@ -25,22 +27,31 @@ import {
   ParkingBelt,
   RFID,
   Scale,
+  PlatformDataValidationError,
   VerificationBelt,
 } from "./models/index.ts";
+import { ApplicationStateError, ApplicationTransferError } from "./models/Errors.ts";
+import { assertTransition, canTransition, StateHistory } from "./stateMachine.ts";
+import { PassengerSession, SessionSummary } from "./passengerSession.ts";
+import { applyManifest, ComponentManifest, evaluateManifest, ManifestEvaluation } from "./manifest.ts";
 
 import {
+  ApplicationActivation,
   ApplicationActivationExecutionModeEnum,
+  ApplicationData,
   ApplicationState as _ApplicationState,
   ApplicationStateChangeReasonCodes as ChangeReason,
   ApplicationStateCodes as AppState,
-  ApplicationTransfer as _ApplicationTransfer,
+  ApplicationTransfer,
   BaggageData,
   CommonUsePaymentMessage,
   ComponentList,
+  ComponentState,
   CUSS2BiometricsDomainCommonUseBiometricMessage,
   CUSS2IlluminationDomainIlluminationData,
   CUSSDataTypes,
   DataRecordList,
+  EnvironmentComponent,
   EnvironmentLevel,
   MessageCodes,
   PlatformData,
@@ -48,31 +59,24 @@ import {
   ScreenResolution,
 } from "cuss2-typescript-models";
 import { ComponentAPI } from "./models/ComponentAPI.ts";
+import { RequestOptions } from "./models/requestOptions.ts";
+import { TypedListen } from "./models/typedEvents.ts";
 
 const ExecutionModeEnum = ApplicationActivationExecutionModeEnum;
 
-const {
-  isAnnouncement,
-  isFeeder,
-  isDispenser,
-  isBagTagPrinter,
-  isBoardingPassPrinter,
-  isDocumentReader,
-  isBarcodeReader,
-  isCardReader,
-  isBiometric,
-  isKeypad,
-  isIllumination,
-  isHeadset,
-  isScale,
-  isCamera,
-  isInsertionBelt,
-  isParkingBelt,
-  isRFIDReader,
-  isVerificationBelt,
-  isAEASBD,
-  isBHS,
-} = ComponentInterrogation;
+// Transfer data handed over by the application that transferred the passenger session to us
+type TransferredActivation = ApplicationActivation & { transferData?: string };
+
+export interface TransferOptions extends RequestOptions {
+  /**
+   * Defaults to the current session's language
+   */
+  languageID?: string;
+  /**
+   * Defaults to the current session's accessible mode
+   */
+  accessibleMode?: boolean;
+}
 
 function validateComponentId(componentID: unknown) {
   if (typeof componentID !== "number") {
@@ -80,10 +84,146 @@ function validateComponentId(componentID: unknown) {
   }
 }
 
+export interface Cuss2Options extends ConnectionOptions {
+  /**
+   * Required and optional components, applied whenever components are discovered
+   */
+  manifest?: ComponentManifest;
+  primarySelection?: PrimaryComponentPolicy;
+  killTimeout?: KillTimeoutOptions;
+  /**
+   * Classes for vendor-specific components, registered before the component list is fetched
+   */
+  componentFactories?: ComponentFactory[];
+}
+
+/**
+ * Timer functions the kill timeout is watched with, so tests can control time
+ */
+export interface KillTimeoutTimers {
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (id: unknown) => void;
+}
+
+/**
+ * How the platform's kill timeout (`env.killTimeout`, in milliseconds) is watched
+ */
+export interface KillTimeoutOptions {
+  /**
+   * Fraction of the platform's kill timeout after which to warn, default 0.5
+   */
+  warnAt?: number;
+  /**
+   * Request the state the platform expects when warning, default true
+   */
+  autoRespond?: boolean;
+  /**
+   * Additions to and overrides of `PLATFORM_EXPECTED_RESPONSES` for this platform
+   */
+  expectedResponses?: Partial<Record<AppState, AppState>>;
+  timers?: KillTimeoutTimers;
+}
+
+export interface Cuss2Events {
+  message: [PlatformData];
+  stateChange: [StateChange];
+  activated: [ApplicationActivation | undefined];
+  deactivated: [AppState];
+  componentStateChange: [Component];
+  sessionTimeout: [MessageCodes];
+  queryError: [unknown];
+  disconnected: [CloseEvent];
+  reconnecting: [number];
+  reconnected: [number];
+  reconnectError: [unknown];
+  validationError: [PlatformDataValidationError];
+  disposed: [];
+  transferred: [string];
+  transferFailed: [ApplicationTransferError];
+  transferReceived: [string, ApplicationActivation];
+  accessibleModeChanged: [boolean];
+  accessibleSessionError: [unknown];
+  // The expected state and the milliseconds left before the platform may kill the application
+  killTimeoutWarning: [AppState, number];
+  requirementsChanged: [ManifestEvaluation];
+  sessionStarted: [PassengerSession];
+  sessionEnded: [SessionSummary];
+  componentAcquired: [Component];
+  componentReleased: [Component];
+  componentAdded: [Component];
+  componentRemoved: [Component];
+  componentChanged: [Component, Component];
+}
+
+export interface ComponentListDiff {
+  added: Component[];
+  removed: Component[];
+  // The new instances of components that were re-characterised or linked to one that changed
+  changed: Component[];
+}
+
+// Convenience properties that point at the primary component of a kind
+const primaryComponentProperties = [
+  "bagTagPrinter",
+  "boardingPassPrinter",
+  "documentReader",
+  "barcodeReader",
+  "illumination",
+  "announcement",
+  "keypad",
+  "cardReader",
+  "biometric",
+  "scale",
+  "insertionBelt",
+  "verificationBelt",
+  "parkingBelt",
+  "rfid",
+  "headset",
+  "camera",
+  "bhs",
+  "aeasbd",
+] as const;
+
+export type PrimaryComponentProperty = typeof primaryComponentProperties[number];
+
+/**
+ * Which component of a kind the convenience property (e.g. `barcodeReader`) points at when the
+ * platform has several: the lowest componentID, the highest, or a custom choice
+ */
+export type PrimaryComponentPolicy =
+  | "first"
+  | "last"
+  | ((candidates: Component[], property: PrimaryComponentProperty) => Component | undefined);
+
+type ComponentClass<T extends Component = Component> = abstract new (...args: never[]) => T;
+
 export class Cuss2 extends EventEmitter {
+  declare on: TypedListen<Cuss2Events, this>;
+  declare once: TypedListen<Cuss2Events, this>;
+  declare off: TypedListen<Cuss2Events, this>;
+
   connection: Connection;
   environment: EnvironmentLevel = {} as EnvironmentLevel;
+  // Typed view of `environment`
+  env: Environment = new Environment();
+  killTimeoutOptions: Required<KillTimeoutOptions> = {
+    warnAt: 0.5,
+    autoRespond: true,
+    expectedResponses: {},
+    timers: {
+      setTimeout: (callback, ms) => global.setTimeout(callback, ms),
+      clearTimeout: (id) => global.clearTimeout(id as ReturnType<typeof setTimeout>),
+    },
+  };
+  _killTimer?: unknown;
   components: Record<string, Component> | undefined = undefined;
+  _componentList?: ComponentList;
+  _lastComponentDiff: ComponentListDiff = { added: [], removed: [], changed: [] };
+  // Decides which class each discovered component gets
+  componentRegistry = new ComponentRegistry();
+  primarySelection: PrimaryComponentPolicy = "first";
+  // Primaries chosen with setPrimary, by componentID
+  _primaryOverrides = new Map<PrimaryComponentProperty, number>();
 
   // State management
   private _currentState: StateChange = new StateChange(AppState.STOPPED, AppState.STOPPED);
@@ -107,10 +247,31 @@ export class Cuss2 extends EventEmitter {
   bhs?: BHS;
   aeasbd?: AEASBD;
 
+  // Every application state change, whether the application or the platform initiated it
+  stateHistory = new StateHistory();
+  // The state request currently in flight
   pendingStateChange?: AppState;
+  // Settles once every queued state request has been sent and answered
+  _stateQueue: Promise<unknown> = Promise.resolve();
+  _queuedStateRequests = new Map<AppState, Promise<PlatformData | undefined>>();
+  // The last state the application asked for, restored after a reconnect
+  _requestedState?: AppState;
   multiTenant?: boolean;
+  // Infer in multi-application mode who holds a component from unsolicited messages, see _trackOwnership
+  inferComponentOwnership = false;
+  manifest?: ComponentManifest;
+  // The outcome of the last requirements check
+  requirements?: ManifestEvaluation;
   accessibleMode: boolean = false;
+  // Enable the keypad and headset and acknowledge accessible mode when an accessible session starts
+  autoStartAccessibleSession = true;
   language?: string;
+  // The passenger session in progress while the application is ACTIVE
+  session?: PassengerSession;
+  // Data from the application that transferred the current passenger session to us
+  transferData?: string;
+  disposed = false;
+  _unsubscribe: () => void;
 
   get state() {
     return this._currentState.current;
@@ -120,8 +281,23 @@ export class Cuss2 extends EventEmitter {
     super();
     this.connection = connection;
     // Subscribe to messages from the CUSS 2 platform
-    connection.on("message", (e) => this._handleWebSocketMessage(e));
-    connection.on("open", () => this._initialize());
+    const listeners = {
+      message: (e: PlatformData) => this._handleWebSocketMessage(e),
+      outbound: (data: ApplicationData) => this.session?.recordRequest(data),
+      disconnected: (e: CloseEvent) => super.emit("disconnected", e),
+      reconnecting: (attempt: number) => super.emit("reconnecting", attempt),
+      reconnected: (attempts: number) => this._handleReconnect(attempts),
+      validationError: (e: PlatformDataValidationError) => super.emit("validationError", e),
+    };
+    const emitter = connection as EventEmitter;
+    for (const [event, listener] of Object.entries(listeners)) {
+      emitter.on(event, listener as (...args: unknown[]) => void);
+    }
+    this._unsubscribe = () => {
+      for (const [event, listener] of Object.entries(listeners)) {
+        emitter.off(event, listener as (...args: unknown[]) => void);
+      }
+    };
   }
 
   static async connect(
@@ -130,6 +306,7 @@ export class Cuss2 extends EventEmitter {
     client_id: string,
     client_secret: string,
     tokenURL?: string,
+    options?: Cuss2Options,
   ): Promise<Cuss2> {
     const connection = await Connection.connect(
       wss,
@@ -137,8 +314,14 @@ export class Cuss2 extends EventEmitter {
       client_id,
       client_secret,
       tokenURL,
+      undefined,
+      options,
     );
     const cuss2 = new Cuss2(connection);
+    cuss2.manifest = options?.manifest;
+    cuss2.primarySelection = options?.primarySelection ?? cuss2.primarySelection;
+    Object.assign(cuss2.killTimeoutOptions, options?.killTimeout);
+    options?.componentFactories?.forEach((factory) => cuss2.componentRegistry.register(factory));
     await cuss2._initialize();
     return cuss2;
   }
@@ -168,6 +351,53 @@ export class Cuss2 extends EventEmitter {
     });
   }
 
+  async _handleReconnect(attempts: number): Promise<void> {
+    log("info", `Reconnected after ${attempts} attempt(s). Re-initializing session`);
+    try {
+      await this._initialize();
+      await this._restoreRequestedState();
+      super.emit("reconnected", attempts);
+    }
+    catch (e) {
+      log("error", "error re-initializing after reconnect", e);
+      super.emit("reconnectError", e);
+    }
+  }
+
+  async _restoreRequestedState(): Promise<void> {
+    const requested = this._requestedState;
+    if (!requested || requested === this.state) return;
+
+    if (requested === AppState.AVAILABLE) {
+      log("info", `Restoring requested ${requested} state`);
+      await this.requestAvailableState();
+    }
+    else if (requested === AppState.UNAVAILABLE) {
+      log("info", `Restoring requested ${requested} state`);
+      await this.requestUnavailableState();
+    }
+    else if (requested === AppState.ACTIVE) {
+      // Only the platform can hand the application a passenger again
+      log("warn", "The ACTIVE state can't be restored after a reconnect. Restoring AVAILABLE instead");
+      await this.requestAvailableState();
+    }
+    else if (requested === AppState.STOPPED) {
+      log("info", `Restoring requested ${requested} state`);
+      await this.requestStoppedState();
+    }
+    else {
+      log("warn", `The requested ${requested} state is not restored after a reconnect`);
+    }
+  }
+
+  /**
+   * Registers middleware that can modify or veto requests before they are sent, and transform
+   * platform messages before the SDK and its components handle them. Returns a function that unregisters it.
+   */
+  use(interceptor: Interceptor): () => void {
+    return this.connection.use(interceptor);
+  }
+
   async _handleWebSocketMessage(platformData: PlatformData) {
     if (!platformData) return;
     const { meta, payload } = platformData;
@@ -175,22 +405,32 @@ export class Cuss2 extends EventEmitter {
     log("verbose", "[event.currentApplicationState]", meta.currentApplicationState);
 
     const unsolicited = !meta.platformDirective;
-    const currentState: AppState = meta.currentApplicationState.applicationStateCode;
+    const currentState: AppState = meta.currentApplicationState?.applicationStateCode;
+
+    this.session?.recordResponse(platformData);
 
     if (meta.messageCode === MessageCodes.SESSIONTIMEOUT) {
       super.emit("sessionTimeout", meta.messageCode);
     }
 
-    if (!currentState) {
+    // In lenient validation mode the missing state was already reported through the validationError event
+    if (!currentState && this.connection._validation !== "lenient") {
       this.connection._socket?.close();
       throw new Error("Platform in invalid state. Cannot continue.");
     }
-    if (currentState !== this.state) {
+    if (currentState && currentState !== this.state) {
       const prevState = this.state;
       log("verbose", `[state changed] old:${prevState} new:${currentState}`);
 
-      // Update current state and emit event
-      this._currentState = new StateChange(prevState, currentState as AppState);
+      // Update current state, record it and emit event
+      const applicationState = meta.currentApplicationState;
+      this._currentState = new StateChange(prevState, currentState as AppState, {
+        reasonCode: applicationState.applicationStateChangeReasonCode,
+        reason: applicationState.applicationStateChangeReason,
+        initiator: this.pendingStateChange === currentState ? "application" : "platform",
+      });
+      this.stateHistory.add(this._currentState);
+      this._watchKillTimeout(this._currentState);
       super.emit("stateChange", this._currentState);
 
       if (currentState === AppState.UNAVAILABLE) {
@@ -203,20 +443,36 @@ export class Cuss2 extends EventEmitter {
         }
       }
       else if (currentState === AppState.ACTIVE) {
-        if (!payload?.applicationActivation) {
-          this.multiTenant = payload?.applicationActivation?.executionMode === ExecutionModeEnum.MAM;
-        }
-        this.accessibleMode = payload?.applicationActivation?.accessibleMode || false;
-        this.language = payload?.applicationActivation?.languageID || "en-US";
+        const activation = payload?.applicationActivation as TransferredActivation | undefined;
+        this.multiTenant = activation?.executionMode === ExecutionModeEnum.MAM;
+        this.language = activation?.languageID || "en-US";
+        // Started first so components enabled for an accessible session are tracked
+        this.session = new PassengerSession(activation, this.language, activation?.accessibleMode || false);
+        super.emit("sessionStarted", this.session);
+        this._setAccessibleMode(activation?.accessibleMode || false);
+        this.transferData = activation?.transferData;
         super.emit("activated", payload?.applicationActivation);
+        if (activation && this.transferData) {
+          super.emit("transferReceived", this.transferData, activation);
+        }
       }
       if (prevState === AppState.ACTIVE) {
+        this.transferData = undefined;
+        this._setAccessibleMode(false);
+        this._endSession(currentState as AppState).catch((e) => log("error", "error ending the session", e));
         super.emit("deactivated", currentState as AppState);
       }
     }
+    // The passenger can switch accessible mode on or off mid-session
+    else if (this.state === AppState.ACTIVE && typeof meta.currentApplicationState?.accessibleMode === "boolean") {
+      this._setAccessibleMode(meta.currentApplicationState.accessibleMode);
+    }
 
     if (typeof meta.componentID === "number" && this.components) {
       const component = this.components[meta.componentID];
+      if (component && unsolicited && this.multiTenant && this.inferComponentOwnership) {
+        this._trackOwnership(component, platformData);
+      }
       if (component && component.stateIsDifferent(platformData)) {
         component.updateState(platformData);
 
@@ -239,117 +495,33 @@ export class Cuss2 extends EventEmitter {
   }
 
   api: ComponentAPI = {
-    getEnvironment: async (): Promise<EnvironmentLevel> => {
+    getEnvironment: async (options?: RequestOptions): Promise<EnvironmentLevel> => {
       const ad = Build.applicationData(PlatformDirectives.PlatformEnvironment);
-      const response = await this.connection.sendAndGetResponse(ad);
+      const response = await this.connection.sendAndGetResponse(ad, options);
       log("verbose", "[getEnvironment()] response", response);
       this.environment = response.payload?.environmentLevel as EnvironmentLevel;
+      this.env = new Environment(this.environment);
+      // The state change that came with this response was handled before the kill timeout was known
+      if (!this._killTimer) {
+        this._watchKillTimeout(this._currentState);
+      }
       return this.environment;
     },
 
-    getComponents: async (): Promise<ComponentList> => {
+    getComponents: async (options?: RequestOptions): Promise<ComponentList> => {
       const ad = Build.applicationData(PlatformDirectives.PlatformComponents);
-      const response = await this.connection.sendAndGetResponse(ad);
+      const response = await this.connection.sendAndGetResponse(ad, options);
       log("verbose", "[getComponents()] response", response);
       const componentList = response.payload?.componentList as ComponentList;
-      if (this.components) return componentList;
-
-      const components: Record<string, Component> = this.components = {};
-
-      //first find feeders & dispensers, so they can be linked when printers are created
-      componentList.forEach((component) => {
-        const id = String(component.componentID);
-        let instance;
-
-        if (isFeeder(component)) instance = new Feeder(component, this);
-        else if (isDispenser(component)) {
-          instance = new Dispenser(component, this);
-        }
-        else return;
-
-        return components[id] = instance;
-      });
-
-      componentList.forEach((component) => {
-        const id = String(component.componentID);
-        let instance;
-
-        if (isAnnouncement(component)) {
-          instance = this.announcement = new Announcement(component, this);
-        }
-        else if (isBagTagPrinter(component)) {
-          instance = this.bagTagPrinter = new BagTagPrinter(component, this);
-        }
-        else if (isBoardingPassPrinter(component)) {
-          instance = this.boardingPassPrinter = new BoardingPassPrinter(
-            component,
-            this,
-          );
-        }
-        else if (isDocumentReader(component)) {
-          instance = this.documentReader = new DocumentReader(component, this);
-        }
-        else if (isBarcodeReader(component)) {
-          instance = this.barcodeReader = new BarcodeReader(component, this);
-        }
-        else if (isCardReader(component)) {
-          instance = this.cardReader = new CardReader(component, this);
-        }
-        else if (isKeypad(component)) {
-          instance = this.keypad = new Keypad(component, this);
-        }
-        else if (isBiometric(component)) {
-          instance = this.biometric = new Biometric(component, this);
-        }
-        else if (isScale(component)) {
-          instance = this.scale = new Scale(component, this);
-        }
-        else if (isCamera(component)) {
-          instance = this.camera = new Camera(component, this);
-        }
-        else if (isInsertionBelt(component)) {
-          instance = this.insertionBelt = new InsertionBelt(component, this);
-        }
-        else if (isVerificationBelt(component)) {
-          instance = this.verificationBelt = new VerificationBelt(
-            component,
-            this,
-          );
-        }
-        else if (isParkingBelt(component)) {
-          instance = this.parkingBelt = new ParkingBelt(component, this);
-        }
-        else if (isRFIDReader(component)) {
-          instance = this.rfid = new RFID(component, this);
-        }
-        else if (isBHS(component)) {
-          instance = this.bhs = new BHS(component, this);
-        }
-        else if (isAEASBD(component)) {
-          instance = this.aeasbd = new AEASBD(component, this);
-        }
-        // subcomponents
-        else if (isFeeder(component)) return; // instance = new Feeder(component, this);
-        else if (isDispenser(component)) return; // instance = new Dispenser(component, this);
-        else if (isIllumination(component)) {
-          instance = this.illumination = new Illumination(component, this);
-        }
-        else if (isHeadset(component)) {
-          instance = this.headset = new Headset(component, this);
-        }
-        else instance = new Component(component, this);
-
-        return components[id] = instance as Component;
-      });
-
+      this._lastComponentDiff = this._applyComponentList(componentList);
       return componentList;
     },
 
-    getStatus: async (componentID: number): Promise<PlatformData> => {
+    getStatus: async (componentID: number, options?: RequestOptions): Promise<PlatformData> => {
       const ad = Build.applicationData(PlatformDirectives.PeripheralsQuery, {
         componentID: String(componentID),
       });
-      const response = await this.connection.sendAndGetResponse(ad);
+      const response = await this.connection.sendAndGetResponse(ad, options);
       log("verbose", "[queryDevice()] response", response);
       return response;
     },
@@ -363,85 +535,87 @@ export class Cuss2 extends EventEmitter {
         | BaggageData
         | CommonUsePaymentMessage
         | CUSS2BiometricsDomainCommonUseBiometricMessage,
+      options?: RequestOptions,
     ): Promise<PlatformData> => {
       const ad = Build.applicationData(PlatformDirectives.PeripheralsSend, {
         componentID: String(componentID),
         dataObj,
       });
-      return await this.connection.sendAndGetResponse(ad);
+      return await this.connection.sendAndGetResponse(ad, options);
     },
 
     setup: async (
       componentID: number,
       dataObj: DataRecordList,
+      options?: RequestOptions,
     ): Promise<PlatformData> => {
       validateComponentId(componentID);
       const ad = Build.applicationData(PlatformDirectives.PeripheralsSetup, {
         componentID: String(componentID),
         dataObj,
       });
-      return await this.connection.sendAndGetResponse(ad);
+      return await this.connection.sendAndGetResponse(ad, options);
     },
 
-    cancel: async (componentID: number): Promise<PlatformData> => {
+    cancel: async (componentID: number, options?: RequestOptions): Promise<PlatformData> => {
       validateComponentId(componentID);
       const ad = Build.applicationData(PlatformDirectives.PeripheralsCancel, {
         componentID: String(componentID),
       });
-      return await this.connection.sendAndGetResponse(ad);
+      return await this.connection.sendAndGetResponse(ad, options);
     },
 
-    enable: async (componentID: number): Promise<PlatformData> => {
+    enable: async (componentID: number, options?: RequestOptions): Promise<PlatformData> => {
       validateComponentId(componentID);
       const ad = Build.applicationData(
         PlatformDirectives.PeripheralsUserpresentEnable,
         { componentID: String(componentID) },
       );
-      return await this.connection.sendAndGetResponse(ad);
+      return await this.connection.sendAndGetResponse(ad, options);
     },
 
-    disable: async (componentID: number): Promise<PlatformData> => {
+    disable: async (componentID: number, options?: RequestOptions): Promise<PlatformData> => {
       validateComponentId(componentID);
       const ad = Build.applicationData(
         PlatformDirectives.PeripheralsUserpresentDisable,
         { componentID: String(componentID) },
       );
-      return await this.connection.sendAndGetResponse(ad);
+      return await this.connection.sendAndGetResponse(ad, options);
     },
-    offer: async (componentID: number): Promise<PlatformData> => {
+    offer: async (componentID: number, options?: RequestOptions): Promise<PlatformData> => {
       validateComponentId(componentID);
       const ad = Build.applicationData(
         PlatformDirectives.PeripheralsUserpresentOffer,
         { componentID: String(componentID) },
       );
-      return await this.connection.sendAndGetResponse(ad);
+      return await this.connection.sendAndGetResponse(ad, options);
     },
 
     staterequest: async (
       state: AppState,
       reasonCode = ChangeReason.NOTAPPLICABLE,
       reason = "",
+      options?: RequestOptions,
     ): Promise<PlatformData | undefined> => {
-      if (this.pendingStateChange) {
-        return Promise.resolve(undefined);
-      }
-      log("info", `Requesting ${state} state`);
-      this.pendingStateChange = state;
-      let response: PlatformData | undefined;
-      try {
-        const ad = Build.stateChange(state, reasonCode, reason);
-        response = await this.connection.sendAndGetResponse(ad);
-        return response;
-      }
-      finally {
-        this.pendingStateChange = undefined;
-      }
+      return await this._queueStateRequest(state, () => this._sendStateRequest(state, reasonCode, reason, options));
+    },
+
+    transferrequest: async (transfer: ApplicationTransfer, options?: RequestOptions): Promise<PlatformData> => {
+      log("info", `Requesting transfer to ${transfer.targetApplicationID}`);
+      const ad = Build.applicationData(PlatformDirectives.PlatformApplicationsTransferrequest, { dataObj: transfer });
+      return await this.connection.sendAndGetResponse(ad, options);
+    },
+
+    acknowledgeAccessible: async (options?: RequestOptions): Promise<PlatformData> => {
+      const ad = Build.applicationData(PlatformDirectives.PlatformApplicationsAcknowledgeAccessible);
+      return await this.connection.sendAndGetResponse(ad, options);
     },
 
     announcement: {
       play: async (
         componentID: number,
         rawData: string,
+        options?: RequestOptions,
       ): Promise<PlatformData> => {
         validateComponentId(componentID);
         const dataObj = [{
@@ -455,38 +629,316 @@ export class Cuss2 extends EventEmitter {
             dataObj,
           },
         );
-        return await this.connection.sendAndGetResponse(ad);
+        return await this.connection.sendAndGetResponse(ad, options);
       },
 
-      pause: async (componentID: number): Promise<PlatformData> => {
+      pause: async (componentID: number, options?: RequestOptions): Promise<PlatformData> => {
         validateComponentId(componentID);
         const ad = Build.applicationData(
           PlatformDirectives.PeripheralsAnnouncementPause,
           { componentID: String(componentID) },
         );
-        return await this.connection.sendAndGetResponse(ad);
+        return await this.connection.sendAndGetResponse(ad, options);
       },
 
-      resume: async (componentID: number): Promise<PlatformData> => {
+      resume: async (componentID: number, options?: RequestOptions): Promise<PlatformData> => {
         validateComponentId(componentID);
         const ad = Build.applicationData(
           PlatformDirectives.PeripheralsAnnouncementResume,
           { componentID: String(componentID) },
         );
-        return await this.connection.sendAndGetResponse(ad);
+        return await this.connection.sendAndGetResponse(ad, options);
       },
 
-      stop: async (componentID: number): Promise<PlatformData> => {
+      stop: async (componentID: number, options?: RequestOptions): Promise<PlatformData> => {
         validateComponentId(componentID);
         const ad = Build.applicationData(
           PlatformDirectives.PeripheralsAnnouncementStop,
           { componentID: String(componentID) },
         );
-        return await this.connection.sendAndGetResponse(ad);
+        return await this.connection.sendAndGetResponse(ad, options);
       },
     },
   };
 
+  /**
+   * Re-fetches the component list and creates or destroys components to match it. Changed components are
+   * replaced by new instances; the old ones are detached, dropping their listeners, so listen for
+   * `componentChanged` to move listeners over to the replacement.
+   */
+  async refreshComponents(options?: RequestOptions): Promise<ComponentListDiff> {
+    await this.api.getComponents(options);
+    return this._lastComponentDiff;
+  }
+
+  /**
+   * Brings the components in line with a component list from the platform. Components that were added,
+   * removed or re-characterised are created or destroyed, along with every component linked to them:
+   * a printer holds on to its feeder and dispenser, so they are rebuilt together.
+   */
+  _applyComponentList(componentList: ComponentList = []): ComponentListDiff {
+    const diff: ComponentListDiff = { added: [], removed: [], changed: [] };
+    const id = (c: EnvironmentComponent | number) => String(typeof c === "number" ? c : c.componentID);
+    const previous = new Map((this._componentList ?? []).map((c) => [id(c), c]));
+    const current = new Map(componentList.map((c) => [id(c), c]));
+    this._componentList = componentList;
+
+    if (!this.components) {
+      this._createComponents(componentList);
+      diff.added = Object.values(this.components || {});
+    }
+    else {
+      const stale = new Set(
+        [...new Set([...previous.keys(), ...current.keys()])]
+          .filter((key) => JSON.stringify(previous.get(key)) !== JSON.stringify(current.get(key))),
+      );
+      if (!stale.size) return diff;
+      log("info", "Component list changed. Updating components");
+
+      const links = new Map<string, string[]>();
+      for (const component of [...previous.values(), ...current.values()]) {
+        for (const linkedID of component.linkedComponentIDs ?? []) {
+          links.set(id(component), [...links.get(id(component)) ?? [], id(linkedID as number)]);
+          links.set(id(linkedID as number), [...links.get(id(linkedID as number)) ?? [], id(component)]);
+        }
+      }
+      const pending = [...stale];
+      while (pending.length) {
+        for (const linkedID of links.get(pending.pop() as string) ?? []) {
+          if (!stale.has(linkedID)) {
+            stale.add(linkedID);
+            pending.push(linkedID);
+          }
+        }
+      }
+
+      const destroyed = new Map<string, Component>();
+      for (const key of stale) {
+        const component = this.components[key];
+        if (component) {
+          this._removeComponent(component);
+          destroyed.set(key, component);
+        }
+      }
+      const created = this._addComponents(componentList.filter((c) => stale.has(id(c))));
+
+      for (const component of created) {
+        const replaced = destroyed.get(id(component.id));
+        if (replaced) {
+          diff.changed.push(component);
+          super.emit("componentChanged", component, replaced);
+        }
+        else {
+          diff.added.push(component);
+          super.emit("componentAdded", component);
+        }
+      }
+      for (const [key, component] of destroyed) {
+        if (!this.components[key]) {
+          diff.removed.push(component);
+          super.emit("componentRemoved", component);
+        }
+      }
+    }
+
+    if (this.manifest) {
+      applyManifest(this.manifest, Object.values(this.components || {}));
+    }
+    // Components appeared or disappeared: re-check requirements once the new ones report their state
+    if (this._online && previous.size) {
+      const created = [...diff.added, ...diff.changed];
+      Promise.all(created.map((c) => c.query().catch((e) => e)))
+        .then(() => this.checkRequiredComponentsAndSyncState());
+    }
+    return diff;
+  }
+
+  _removeComponent(component: Component): void {
+    component.detach();
+    delete this.components?.[component.id];
+  }
+
+  _destroyComponents(): void {
+    Object.values(this.components || {}).forEach((component) => this._removeComponent(component));
+    this.components = undefined;
+    this._selectPrimaries();
+  }
+
+  _primaryKinds(): Record<PrimaryComponentProperty, ComponentClass> {
+    return {
+      bagTagPrinter: BagTagPrinter,
+      boardingPassPrinter: BoardingPassPrinter,
+      documentReader: DocumentReader,
+      barcodeReader: BarcodeReader,
+      illumination: Illumination,
+      announcement: Announcement,
+      keypad: Keypad,
+      cardReader: CardReader,
+      biometric: Biometric,
+      scale: Scale,
+      insertionBelt: InsertionBelt,
+      verificationBelt: VerificationBelt,
+      parkingBelt: ParkingBelt,
+      rfid: RFID,
+      headset: Headset,
+      camera: Camera,
+      bhs: BHS,
+      aeasbd: AEASBD,
+    };
+  }
+
+  _selectPrimaries(): void {
+    const kinds = this._primaryKinds();
+    const policy = this.primarySelection;
+    const properties = this as unknown as Record<PrimaryComponentProperty, Component | undefined>;
+    for (const property of primaryComponentProperties) {
+      const candidates = this.componentsOf(kinds[property]);
+      const chosen = candidates.find((c) => c.id === this._primaryOverrides.get(property));
+      if (chosen) properties[property] = chosen;
+      else if (policy === "first") properties[property] = candidates[0];
+      else if (policy === "last") properties[property] = candidates[candidates.length - 1];
+      else properties[property] = policy(candidates, property);
+    }
+  }
+
+  /**
+   * Points the component's convenience property (e.g. `barcodeReader`) at it, whatever the primary-selection policy
+   */
+  setPrimary(component: Component): void {
+    const kinds = this._primaryKinds();
+    const property = primaryComponentProperties.find((p) => component instanceof kinds[p]);
+    if (!property) {
+      throw new TypeError(`No convenience property for component ${component.id}`);
+    }
+    this._primaryOverrides.set(property, component.id);
+    this._selectPrimaries();
+  }
+
+  /**
+   * Components of the given class, ordered by componentID
+   */
+  componentsOf<T extends Component>(type: ComponentClass<T>): T[] {
+    return this.find().ofType(type).all();
+  }
+
+  /**
+   * Starts a query over the components by capability
+   */
+  find(): ComponentQuery {
+    return new ComponentQuery(() => Object.values(this.components || {}));
+  }
+
+  /**
+   * Finds a component by componentID or by its componentDescription
+   */
+  getComponent(idOrDescription: number | string): Component | undefined {
+    if (typeof idOrDescription === "number") {
+      return this.components?.[idOrDescription];
+    }
+    return Object.values(this.components || {}).find((c) => c._component.componentDescription === idOrDescription);
+  }
+
+  get barcodeReaders(): BarcodeReader[] {
+    return this.componentsOf(BarcodeReader);
+  }
+
+  get documentReaders(): DocumentReader[] {
+    return this.componentsOf(DocumentReader);
+  }
+
+  get cardReaders(): CardReader[] {
+    return this.componentsOf(CardReader);
+  }
+
+  get rfidReaders(): RFID[] {
+    return this.componentsOf(RFID);
+  }
+
+  get scales(): Scale[] {
+    return this.componentsOf(Scale);
+  }
+
+  get cameras(): Camera[] {
+    return this.componentsOf(Camera);
+  }
+
+  get biometrics(): Biometric[] {
+    return this.componentsOf(Biometric);
+  }
+
+  get printers(): { boardingPass: BoardingPassPrinter[]; bagTag: BagTagPrinter[] } {
+    return { boardingPass: this.componentsOf(BoardingPassPrinter), bagTag: this.componentsOf(BagTagPrinter) };
+  }
+
+  /**
+   * Registers a class for the components the factory matches. Components already created keep their class
+   * until they next change or are rediscovered. Returns a function that unregisters it.
+   */
+  registerComponent(factory: ComponentFactory): () => void {
+    return this.componentRegistry.register(factory);
+  }
+
+  _createComponents(componentList: ComponentList): void {
+    this.components = {};
+    this._addComponents(componentList);
+  }
+
+  /**
+   * Creates components and adds them to `components`. Returns the new components.
+   */
+  _addComponents(componentList: ComponentList): Component[] {
+    const components: Record<string, Component> = this.components ??= {};
+    const created: Component[] = [];
+
+    const resolved = componentList.map((component) => ({
+      component,
+      factory: this.componentRegistry.resolve(component),
+    }));
+    // subcomponents first (feeders & dispensers), so they can be linked when printers are created
+    const ordered = [
+      ...resolved.filter(({ factory }) => factory?.subcomponent),
+      ...resolved.filter(({ factory }) => !factory?.subcomponent),
+    ];
+    for (const { component, factory } of ordered) {
+      const instance = factory ? factory.create(component, this) : new Component(component, this);
+      created.push(instance);
+      components[String(component.componentID)] = instance;
+    }
+
+    created.forEach((component) => {
+      component.on("ownershipChange", (owner, previous) => {
+        if (owner === "application") super.emit("componentAcquired", component);
+        else if (previous === "application") super.emit("componentReleased", component);
+      });
+    });
+    this._selectPrimaries();
+    return created;
+  }
+
+  /**
+   * In multi-application mode the platform hands shared components between applications. The CUSS 2
+   * specification doesn't define how the application losing a component is told, so this follows platforms
+   * that send it an unsolicited WRONGAPPLICATIONSTATE and report the component READY again once the other
+   * application lets go of it. Only used with `inferComponentOwnership`, since on other platforms those
+   * messages mean something else.
+   */
+  _trackOwnership(component: Component, platformData: PlatformData): void {
+    const { messageCode, componentState } = platformData.meta;
+    if (messageCode === MessageCodes.WRONGAPPLICATIONSTATE) {
+      component._setOwner("other");
+    }
+    else if (component.owner === "other" && componentState === ComponentState.READY) {
+      component._setOwner("none");
+    }
+  }
+
+  /**
+   * Components another application holds in multi-application mode
+   */
+  get componentsOwnedByOthers(): Component[] {
+    return Object.values(this.components || {}).filter((c) => c.ownedByOther);
+  }
+
   async _disableAllComponents(): Promise<void> {
     if (this.components) {
       const componentList = Object.values(this.components) as Component[];
@@ -512,29 +964,222 @@ export class Cuss2 extends EventEmitter {
     }
   }
 
-  async requestAvailableState(): Promise<PlatformData | undefined> {
-    // allow hopping directly to AVAILABLE from INITIALIZE
-    if (this.state === AppState.INITIALIZE) {
-      await this.requestUnavailableState();
+  /**
+   * Ends the session: disables enabled components, optionally requests the STOPPED state,
+   * stops component polling, removes all listeners and closes the socket.
+   * Calling it again does nothing.
+   */
+  async dispose(options: { requestStopped?: boolean } = {}): Promise<void> {
+    if (this.disposed) return;
+    this.disposed = true;
+    log("info", "Disposing CUSS2 session");
+
+    if (this.connection.isOpen) {
+      for (const component of Object.values(this.components || {})) {
+        if (component.enabled) {
+          await component.disable().catch((e) => log("error", `error disabling component ${component.id}`, e));
+        }
+      }
+      if (options.requestStopped) {
+        await this.requestStoppedState().catch((e) => log("error", "error requesting STOPPED state", e));
+      }
+    }
+
+    this.killTimeoutOptions.timers.clearTimeout(this._killTimer);
+    this._destroyComponents();
+    this._unsubscribe();
+    this.connection.close(1000, "Application disposed");
+    super.emit("disposed");
+    super.removeAllListeners();
+  }
+
+  /**
+   * Watches the platform's kill timeout (milliseconds) after it moves the application into a state it
+   * expects a response to. Once `warnAt` of the window has passed without the response, warns and, with
+   * `autoRespond`, requests the expected state.
+   */
+  _watchKillTimeout(change: StateChange): void {
+    const { warnAt, autoRespond, expectedResponses, timers } = this.killTimeoutOptions;
+    timers.clearTimeout(this._killTimer);
+    this._killTimer = undefined;
+    const expected = { ...PLATFORM_EXPECTED_RESPONSES, ...expectedResponses }[change.current];
+    const killTimeout = this.env.killTimeout;
+    if (change.initiator !== "platform" || !expected || !killTimeout) return;
+
+    this._killTimer = timers.setTimeout(() => {
+      this._killTimer = undefined;
+      if (this.state !== change.current || this._queuedStateRequests.has(expected)) return;
+
+      const remaining = Math.round(killTimeout * (1 - warnAt));
+      log("warn", `Platform expects the ${expected} state within ${remaining}ms`);
+      super.emit("killTimeoutWarning", expected, remaining);
+      if (autoRespond) {
+        this.api.staterequest(expected).catch((e) => log("error", `error requesting ${expected} state`, e));
+      }
+    }, killTimeout * warnAt);
+  }
+
+  /**
+   * Cleans up after the passenger: stops announcements, switches off the lights, cancels and disables
+   * the components the session enabled, then emits the session summary
+   */
+  async _endSession(endState: AppState): Promise<void> {
+    const session = this.session;
+    if (!session) return;
+    this.session = undefined;
+    const components = this.components || {};
+    const summary = session.end(endState, components);
+
+    // Read before the deactivated event marks every component disabled
+    const used = [...session.componentsUsed].map((id) => components[id]).filter((c) => !!c);
+    const enabled = new Set(used.filter((c) => c.enabled));
+    for (const component of used) {
+      try {
+        if (component instanceof Announcement) {
+          await component.stop();
+        }
+        else if (component instanceof Illumination) {
+          // A light left on would greet the next passenger, even one whose timed duration the SDK didn't track
+          await component.disable();
+        }
+        else if (enabled.has(component)) {
+          // Fails when nothing is in progress, which is fine
+          await component.cancel().catch(() => undefined);
+          await component.disable();
+        }
+      }
+      catch (e) {
+        log("error", `error cleaning up component ${component.id} after the session`, e);
+        session.recordError(e, component.id);
+      }
     }
-    const okToChange = this.state === AppState.UNAVAILABLE || this.state === AppState.ACTIVE;
+    super.emit("sessionEnded", summary);
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.dispose();
+  }
 
-    if (okToChange && this.state === AppState.ACTIVE) {
+  /**
+   * Hands the passenger session over to another application. Our components are disabled
+   * first; if the platform refuses the transfer we stay ACTIVE and they need re-enabling.
+   */
+  async transferTo(
+    targetApplicationID: string,
+    transferData?: string,
+    options: TransferOptions = {},
+  ): Promise<PlatformData> {
+    if (this.state !== AppState.ACTIVE) {
+      throw new ApplicationStateError("transfer the passenger session", this.state, [AppState.ACTIVE]);
+    }
+    const { languageID = this.language, accessibleMode = this.accessibleMode, ...requestOptions } = options;
+
+    try {
       await this._disableAllComponents();
+      const transfer = { targetApplicationID, transferData, languageID, accessibleMode } as ApplicationTransfer;
+      const response = await this.api.transferrequest(transfer, requestOptions);
+      super.emit("transferred", targetApplicationID);
+      return response;
+    }
+    catch (e) {
+      const error = new ApplicationTransferError(targetApplicationID, e);
+      log("error", error.message, e);
+      super.emit("transferFailed", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirms to the platform that the application switched to accessible operation
+   */
+  async acknowledgeAccessibleMode(options?: RequestOptions): Promise<PlatformData> {
+    if (this.state !== AppState.ACTIVE) {
+      throw new ApplicationStateError("acknowledge accessible mode", this.state, [AppState.ACTIVE]);
     }
+    return await this.api.acknowledgeAccessible(options);
+  }
 
-    return okToChange ? this.api.staterequest(AppState.AVAILABLE) : Promise.resolve(undefined);
+  _setAccessibleMode(accessibleMode: boolean): void {
+    if (accessibleMode === this.accessibleMode) return;
+    this.accessibleMode = accessibleMode;
+    super.emit("accessibleModeChanged", accessibleMode);
+
+    if (accessibleMode && this.state === AppState.ACTIVE && this.autoStartAccessibleSession) {
+      this._startAccessibleSession().catch((e) => {
+        log("error", "error starting accessible session", e);
+        super.emit("accessibleSessionError", e);
+      });
+    }
   }
 
-  async requestUnavailableState(): Promise<PlatformData | undefined> {
-    const okToChange = this.state === AppState.INITIALIZE || this.state === AppState.AVAILABLE ||
-      this.state === AppState.ACTIVE;
+  async _startAccessibleSession(): Promise<void> {
+    for (const component of [this.keypad, this.headset]) {
+      if (component && !component.enabled) {
+        await component.enable();
+      }
+    }
+    await this.acknowledgeAccessibleMode();
+  }
+
+  /**
+   * Runs state requests one at a time, in the order they were made. A request for a state that is
+   * already queued or in flight joins it and shares its response.
+   */
+  _queueStateRequest(
+    state: AppState,
+    send: () => Promise<PlatformData | undefined>,
+  ): Promise<PlatformData | undefined> {
+    const queued = this._queuedStateRequests.get(state);
+    if (queued) return queued;
+
+    const request = this._stateQueue.then(send).finally(() => this._queuedStateRequests.delete(state));
+    this._queuedStateRequests.set(state, request);
+    this._stateQueue = request.catch(() => undefined);
+    return request;
+  }
 
-    if (okToChange && this.state === AppState.ACTIVE) {
+  /**
+   * Sends a state request right away. Throws IllegalStateTransitionError when STATE_TRANSITIONS
+   * doesn't allow the request from the current state.
+   */
+  async _sendStateRequest(
+    state: AppState,
+    reasonCode = ChangeReason.NOTAPPLICABLE,
+    reason = "",
+    options?: RequestOptions,
+  ): Promise<PlatformData> {
+    assertTransition(this.state, state);
+    if (this.state === AppState.ACTIVE && (state === AppState.AVAILABLE || state === AppState.UNAVAILABLE)) {
       await this._disableAllComponents();
     }
 
-    return okToChange ? this.api.staterequest(AppState.UNAVAILABLE) : Promise.resolve(undefined);
+    log("info", `Requesting ${state} state`);
+    this.pendingStateChange = state;
+    this._requestedState = state;
+    try {
+      const ad = Build.stateChange(state, reasonCode, reason);
+      return await this.connection.sendAndGetResponse(ad, options);
+    }
+    finally {
+      this.pendingStateChange = undefined;
+    }
+  }
+
+  async requestAvailableState(): Promise<PlatformData | undefined> {
+    return await this._queueStateRequest(AppState.AVAILABLE, async () => {
+      // allow hopping directly to AVAILABLE from INITIALIZE
+      if (this.state === AppState.INITIALIZE) {
+        await this._sendStateRequest(AppState.UNAVAILABLE);
+      }
+      return await this._sendStateRequest(AppState.AVAILABLE);
+    });
+  }
+
+  async requestUnavailableState(
+    reasonCode = ChangeReason.NOTAPPLICABLE,
+    reason = "",
+  ): Promise<PlatformData | undefined> {
+    return await this.api.staterequest(AppState.UNAVAILABLE, reasonCode, reason);
   }
 
   async requestStoppedState(): Promise<PlatformData | undefined> {
@@ -542,18 +1187,17 @@ export class Cuss2 extends EventEmitter {
   }
 
   async requestActiveState(): Promise<PlatformData | undefined> {
-    const okToChange = this.state === AppState.AVAILABLE || this.state === AppState.ACTIVE;
-    return await (okToChange ? this.api.staterequest(AppState.ACTIVE) : Promise.resolve(undefined));
+    return await this.api.staterequest(AppState.ACTIVE);
   }
 
+  /**
+   * Requests the RELOAD state, then closes the socket so the connection is re-established.
+   * Resolves `false` without sending anything when RELOAD can't be requested from the current state.
+   */
   async requestReload(): Promise<boolean> {
-    const okToChange = !this.state || this.state === AppState.UNAVAILABLE ||
-      this.state === AppState.AVAILABLE || this.state === AppState.ACTIVE;
-
-    if (!okToChange) {
-      return Promise.resolve(false);
+    if (this.state && !canTransition(this.state, AppState.RELOAD)) {
+      return false;
     }
-
     await this.api.staterequest(AppState.RELOAD);
     // directly close the socket so reconnect will still happen
     this.connection._socket?.close(1001, "Reloading");
@@ -583,30 +1227,61 @@ export class Cuss2 extends EventEmitter {
     return this.unavailableComponents.filter((c: Component) => c.required);
   }
 
+  /**
+   * Checks the manifest, or without one each component's `required` flag, against the ready components
+   */
+  evaluateRequirements(): ManifestEvaluation {
+    const evaluation: ManifestEvaluation = this.manifest
+      ? evaluateManifest(this.manifest, Object.values(this.components || {}))
+      : {
+        met: !this.unavailableRequiredComponents.length,
+        unmet: this.unavailableRequiredComponents.map((c) => ({
+          name: c.constructor.name,
+          reasonCode: ChangeReason.NOTAPPLICABLE,
+          candidates: [c],
+        })),
+        fallbacks: [],
+        optionalUnavailable: [],
+      };
+
+    const summarize = (e?: ManifestEvaluation) =>
+      JSON.stringify(e && [e.unmet.map((r) => r.name), e.fallbacks, e.optionalUnavailable]);
+    const changed = summarize(evaluation) !== summarize(this.requirements);
+    this.requirements = evaluation;
+    if (changed) {
+      super.emit("requirementsChanged", evaluation);
+    }
+    return evaluation;
+  }
+
   checkRequiredComponentsAndSyncState(): void {
     if (this.pendingStateChange) return;
+    const syncFailed = (e: unknown) => log("error", "error syncing application state", e);
     if (this._online) {
-      const inactiveRequiredComponents = this.unavailableRequiredComponents;
-      if (!inactiveRequiredComponents.length) {
+      const { unmet } = this.evaluateRequirements();
+      if (!unmet.length) {
         if (this.state === AppState.UNAVAILABLE) {
           log(
             "verbose",
             "[checkRequiredComponentsAndSyncState] All required components OK ✅. Ready for AVAILABLE state.",
           );
-          this.requestAvailableState();
+          this.requestAvailableState().catch(syncFailed);
         }
       }
       else {
         log(
           "verbose",
           "[checkRequiredComponentsAndSyncState] Required components UNAVAILABLE:",
-          inactiveRequiredComponents.map((c: Component) => c.constructor.name),
+          unmet.map((r) => r.name),
         );
-        this.requestUnavailableState();
+        if (canTransition(this.state, AppState.UNAVAILABLE)) {
+          const reason = `Required components unavailable: ${unmet.map((r) => r.name).join(", ")}`;
+          this.requestUnavailableState(unmet[0].reasonCode, reason).catch(syncFailed);
+        }
       }
     }
-    else if (this.components) {
-      this.requestUnavailableState();
+    else if (this.components && canTransition(this.state, AppState.UNAVAILABLE)) {
+      this.requestUnavailableState().catch(syncFailed);
     }
   }
 
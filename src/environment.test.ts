@@ -0,0 +1,23 @@
+import { assertEquals } from "jsr:@std/assert";
+import { EnvironmentLevel } from "cuss2-typescript-models";
+import { Environment } from "./environment.ts";
+
+Deno.test("Environment should expose the platform's limits", () => {
+  const env = new Environment({
+    deviceID: "kiosk-1",
+    cussVersions: ["2.0", "2.1.3"],
+    killTimeout: 30000,
+  } as unknown as EnvironmentLevel);
+
+  assertEquals(env.deviceID, "kiosk-1");
+  assertEquals(env.killTimeout, 30000);
+  assertEquals(env.supportsVersion("2.1"), true);
+  assertEquals(env.supportsVersion("2.2"), false);
+  assertEquals(env.screenResolution, undefined);
+});
+
+Deno.test("Environment should treat a missing kill timeout as none", () => {
+  const env = new Environment();
+  assertEquals(env.killTimeout, undefined);
+  assertEquals(env.cussVersions, []);
+});
@@ -0,0 +1,57 @@
+import { ApplicationStateCodes as AppState, EnvironmentLevel } from "cuss2-typescript-models";
+
+/**
+ * The state the platform expects the application to request after moving it into a state on its own.
+ * If the application doesn't within the kill timeout, the platform may terminate it.
+ */
+export const PLATFORM_EXPECTED_RESPONSES: Readonly<Partial<Record<AppState, AppState>>> = {
+  [AppState.INITIALIZE]: AppState.UNAVAILABLE,
+  // The application is to shut down and be restarted; STOPPED is the only state it can request
+  [AppState.RELOAD]: AppState.STOPPED,
+};
+
+/**
+ * Typed view of the platform's EnvironmentLevel
+ */
+export class Environment {
+  level: EnvironmentLevel;
+
+  constructor(level: EnvironmentLevel = {} as EnvironmentLevel) {
+    this.level = level;
+  }
+
+  /**
+   * Any field of the EnvironmentLevel. Platforms may omit fields, or the whole level, so each may be undefined.
+   */
+  get<K extends keyof EnvironmentLevel>(key: K): EnvironmentLevel[K] | undefined {
+    return this.level?.[key];
+  }
+
+  get deviceID(): EnvironmentLevel["deviceID"] | undefined {
+    return this.get("deviceID");
+  }
+
+  get deviceLocation(): EnvironmentLevel["deviceLocation"] | undefined {
+    return this.get("deviceLocation");
+  }
+
+  get cussVersions(): NonNullable<EnvironmentLevel["cussVersions"]> {
+    return this.get("cussVersions") ?? [];
+  }
+
+  supportsVersion(version: string): boolean {
+    return this.cussVersions.some((v) => v === version || v.startsWith(`${version}.`));
+  }
+
+  /**
+   * Milliseconds the platform waits for the application to react to a state change before killing it
+   */
+  get killTimeout(): number | undefined {
+    const timeout = Number(this.get("killTimeout"));
+    return timeout > 0 ? timeout : undefined;
+  }
+
+  get screenResolution(): EnvironmentLevel["screenResolution"] | undefined {
+    return this.get("screenResolution");
+  }
+}
@@ -0,0 +1,9 @@
+// These are needed for overriding during testing. Internal: not exported from the entry points.
+export const global = {
+  WebSocket: globalThis.WebSocket,
+  fetch: globalThis.fetch,
+  clearTimeout: globalThis.clearTimeout.bind(globalThis),
+  setTimeout: globalThis.setTimeout.bind(globalThis),
+  clearInterval: globalThis.clearInterval.bind(globalThis),
+  setInterval: globalThis.setInterval.bind(globalThis),
+};
@@ -0,0 +1,49 @@
+import { assertEquals } from "jsr:@std/assert";
+import { HeartbeatMonitor } from "./heartbeat.ts";
+
+// Timers that never fire; checks are driven by calling check() directly
+const manualTimers = {
+  setInterval: () => 1 as unknown as ReturnType<typeof setInterval>,
+  clearInterval: () => {},
+};
+
+Deno.test("HeartbeatMonitor should derive the stale threshold from the ping cadence", () => {
+  const monitor = new HeartbeatMonitor({ missedPings: 3 }, manualTimers);
+  monitor.start(0);
+
+  // The first ping only marks the start of the cadence
+  monitor.recordPing(true, 500);
+  assertEquals(monitor.cadence, undefined);
+  assertEquals(monitor.staleAfter, 30000);
+
+  monitor.recordPing(true, 1500);
+  monitor.recordPing(true, 2500);
+  assertEquals(monitor.cadence, 1000);
+  assertEquals(monitor.staleAfter, 3000);
+  assertEquals(monitor.closeAfter, 6000);
+});
+
+Deno.test("HeartbeatMonitor should report stale, alive and dead connections", () => {
+  const events: string[] = [];
+  const monitor = new HeartbeatMonitor({ staleAfter: 1000, closeAfter: 3000 }, manualTimers);
+  monitor.onStale = () => events.push("stale");
+  monitor.onAlive = () => events.push("alive");
+  monitor.onDead = () => events.push("dead");
+  monitor.start(0);
+
+  monitor.check(500);
+  monitor.check(1500);
+  monitor.check(2000); // already stale, not reported twice
+  assertEquals(events, ["stale"]);
+
+  monitor.recordPing(2100, 2200);
+  assertEquals(events, ["stale", "alive"]);
+  assertEquals(monitor.pingDelay, 100);
+
+  monitor.check(5300);
+  assertEquals(events, ["stale", "alive", "dead"]);
+
+  // A platform clock ahead of ours shows up rather than being hidden
+  monitor.recordPing(5400, 5300);
+  assertEquals(monitor.pingDelay, -100);
+});
@@ -0,0 +1,131 @@
+export interface HeartbeatOptions {
+  /**
+   * Milliseconds without a ping before the connection is reported stale.
+   * When omitted it is derived from the observed ping cadence and `missedPings`.
+   */
+  staleAfter?: number;
+
+  /**
+   * Number of expected pings that may be missed before the connection is reported stale
+   */
+  missedPings?: number;
+
+  /**
+   * Milliseconds without a ping before the socket is closed to force a reconnect.
+   * Defaults to twice the stale threshold.
+   */
+  closeAfter?: number;
+
+  /**
+   * How often the silence is checked, in milliseconds
+   */
+  checkInterval?: number;
+}
+
+export interface HeartbeatTimers {
+  setInterval: (callback: () => void, ms?: number) => ReturnType<typeof setInterval>;
+  clearInterval: (id: ReturnType<typeof setInterval>) => void;
+}
+
+// Used as the stale threshold until the ping cadence is known
+const DEFAULT_STALE_AFTER = 30000; //ms
+// Number of ping intervals averaged into the cadence
+const CADENCE_SAMPLES = 10;
+
+/**
+ * Watches the pings sent by the platform and reports when they stop arriving,
+ * which is the only sign of a half-open TCP connection.
+ */
+export class HeartbeatMonitor {
+  options: HeartbeatOptions;
+  lastPingAt = 0;
+  stale = false;
+  /**
+   * Milliseconds between the platform stamping a ping and us receiving it. This is a one-way figure taken
+   * from two clocks: it assumes they are in sync, and any skew between them is included. Not a round trip.
+   * Left unclamped, so a negative value shows that the platform's clock is ahead of ours.
+   */
+  pingDelay?: number;
+  _intervals: number[] = [];
+  _awaitingFirstPing = true;
+  _timer: ReturnType<typeof setInterval> | undefined;
+  _timers: HeartbeatTimers;
+
+  onStale?: (silence: number) => void;
+  onAlive?: (silence: number) => void;
+  onDead?: (silence: number) => void;
+
+  constructor(
+    options: HeartbeatOptions = {},
+    timers: HeartbeatTimers = {
+      setInterval: globalThis.setInterval.bind(globalThis),
+      clearInterval: globalThis.clearInterval.bind(globalThis),
+    },
+  ) {
+    this.options = { missedPings: 3, checkInterval: 1000, ...options };
+    this._timers = timers;
+  }
+
+  /**
+   * Average milliseconds between pings, once at least two have been seen
+   */
+  get cadence(): number | undefined {
+    if (!this._intervals.length) return undefined;
+    return this._intervals.reduce((sum, i) => sum + i, 0) / this._intervals.length;
+  }
+
+  get staleAfter(): number {
+    const { staleAfter, missedPings = 3 } = this.options;
+    const cadence = this.cadence;
+    return staleAfter ?? (cadence ? cadence * missedPings : DEFAULT_STALE_AFTER);
+  }
+
+  get closeAfter(): number {
+    return this.options.closeAfter ?? this.staleAfter * 2;
+  }
+
+  start(now = Date.now()): void {
+    this.stop();
+    // The silence is measured from the moment the socket opened
+    this.lastPingAt = now;
+    this.stale = false;
+    this._awaitingFirstPing = true;
+    this._timer = this._timers.setInterval(() => this.check(), this.options.checkInterval);
+  }
+
+  stop(): void {
+    if (this._timer !== undefined) {
+      this._timers.clearInterval(this._timer);
+      this._timer = undefined;
+    }
+  }
+
+  recordPing(ping: unknown, now = Date.now()): void {
+    const silence = now - this.lastPingAt;
+    if (!this._awaitingFirstPing) {
+      this._intervals.push(silence);
+      if (this._intervals.length > CADENCE_SAMPLES) this._intervals.shift();
+    }
+    this._awaitingFirstPing = false;
+    this.lastPingAt = now;
+    if (typeof ping === "number" && ping > 0) {
+      this.pingDelay = now - ping;
+    }
+    if (this.stale) {
+      this.stale = false;
+      this.onAlive?.(silence);
+    }
+  }
+
+  check(now = Date.now()): void {
+    const silence = now - this.lastPingAt;
+    if (silence > this.closeAfter) {
+      this.stop();
+      this.onDead?.(silence);
+    }
+    else if (silence > this.staleAfter && !this.stale) {
+      this.stale = true;
+      this.onStale?.(silence);
+    }
+  }
+}
@@ -1,7 +1,30 @@
 export * from "cuss2-typescript-models";
 export * from "./cuss2.ts";
+export type { ConnectionEvents, ConnectionOptions, TrackedRequest } from "./connection.ts";
+export type { DropPolicy, OutboundQueueOptions } from "./outboundQueue.ts";
+export type { HeartbeatOptions } from "./heartbeat.ts";
+export * from "./transport.ts";
+export * from "./tokenProvider.ts";
+export * from "./recorder.ts";
+export * from "./validation.ts";
+export * from "./stateMachine.ts";
+export * from "./manifest.ts";
+export * from "./passengerSession.ts";
+export * from "./componentQuery.ts";
+export * from "./environment.ts";
+export * from "./interceptors.ts";
+export * from "./componentRegistry.ts";
 export * from "./models/Component.ts";
 export * from "./models/deviceType.ts";
 export * from "./models/stateChange.ts";
 export * from "./models/platformResponseError.ts";
+export * from "./models/Errors.ts";
+export type { RequestOptions } from "./models/requestOptions.ts";
+export type { Acknowledgement } from "./models/acknowledgement.ts";
+export type { ValidationIssue } from "./models/validationIssue.ts";
+export type { EventMap, TypedListen } from "./models/typedEvents.ts";
+export type { DataReaderEvents } from "./models/DataReaderComponent.ts";
+export type { PrinterEvents } from "./models/Printer.ts";
+export type { DispenserEvents } from "./models/Dispenser.ts";
+export type { KeypadData, KeypadEvents } from "./models/Keypad.ts";
 export * from "./helper.ts";
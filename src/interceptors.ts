@@ -0,0 +1,46 @@
+import type { ApplicationData, PlatformData } from "cuss2-typescript-models";
+import { MessageVetoedError } from "./models/Errors.ts";
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Middleware around the messages exchanged with the platform. Interceptors run in the order they were
+ * registered. Returning nothing passes the (possibly mutated) message on unchanged.
+ */
+export interface Interceptor {
+  /**
+   * Sees each request, and each message sent with `Connection.send`, before it is sent. Return a replacement
+   * to change it, or `false` to veto it: the request then fails with a MessageVetoedError without reaching
+   * the platform.
+   */
+  outbound?: (data: ApplicationData) => MaybePromise<ApplicationData | false | void>;
+
+  /**
+   * Sees each platform message before the SDK validates and handles it, so it can also normalise a message
+   * validation would reject. Return a replacement to transform it.
+   */
+  inbound?: (data: PlatformData) => MaybePromise<PlatformData | void>;
+}
+
+export const interceptOutbound = async (
+  interceptors: Interceptor[],
+  data: ApplicationData,
+): Promise<ApplicationData> => {
+  for (const interceptor of interceptors) {
+    if (!interceptor.outbound) continue;
+    const result = await interceptor.outbound(data);
+    if (result === false) {
+      throw new MessageVetoedError(data.meta?.requestID, data.meta?.directive);
+    }
+    data = result ?? data;
+  }
+  return data;
+};
+
+export const interceptInbound = async (interceptors: Interceptor[], data: PlatformData): Promise<PlatformData> => {
+  for (const interceptor of interceptors) {
+    if (!interceptor.inbound) continue;
+    data = (await interceptor.inbound(data)) ?? data;
+  }
+  return data;
+};
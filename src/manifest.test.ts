@@ -0,0 +1,50 @@
+import { assertEquals } from "jsr:@std/assert";
+import { ApplicationStateChangeReasonCodes, CUSSDataTypes, MediaTypes } from "cuss2-typescript-models";
+import { applyManifest, ComponentManifest, evaluateManifest } from "./manifest.ts";
+import { Component } from "./models/Component.ts";
+import { DeviceType } from "./models/deviceType.ts";
+
+const component = (deviceType: DeviceType, ready: boolean, characteristics: Record<string, unknown[]> = {}) =>
+  ({
+    deviceType,
+    ready,
+    required: false,
+    _component: { componentCharacteristics: [characteristics] },
+  }) as unknown as Component;
+
+const manifest: ComponentManifest = {
+  required: [
+    { name: "barcode", dsType: CUSSDataTypes.BARCODE },
+    {
+      name: "boarding pass",
+      anyOf: [{ deviceType: DeviceType.BOARDING_PASS_PRINTER, mediaType: MediaTypes.BOARDINGPASS }],
+      fallback: "mobile-only",
+    },
+    { deviceType: DeviceType.PASSPORT_READER, reasonCode: ApplicationStateChangeReasonCodes.NOTAPPLICABLE },
+  ],
+  optional: [{ deviceType: DeviceType.SCALE }],
+};
+
+Deno.test("applyManifest should mark the components that can meet required entries", () => {
+  const printer = component(DeviceType.BOARDING_PASS_PRINTER, false, { mediaTypesList: [MediaTypes.BOARDINGPASS] });
+  const scale = component(DeviceType.SCALE, true);
+  applyManifest(manifest, [printer, scale]);
+  assertEquals(printer.required, true);
+  assertEquals(scale.required, false);
+});
+
+Deno.test("evaluateManifest should report unmet requirements and fallbacks", () => {
+  const barcodeReader = component(DeviceType.BARCODE_READER, true, { dsTypesList: [CUSSDataTypes.BARCODE] });
+  const printer = component(DeviceType.BOARDING_PASS_PRINTER, false, { mediaTypesList: [MediaTypes.BOARDINGPASS] });
+  const passportReader = component(DeviceType.PASSPORT_READER, false);
+
+  const evaluation = evaluateManifest(manifest, [barcodeReader, printer, passportReader]);
+  assertEquals(evaluation.met, false);
+  assertEquals(evaluation.unmet.map((r) => r.name), ["PASSPORT_READER"]);
+  assertEquals(evaluation.unmet[0].candidates, [passportReader]);
+  assertEquals(evaluation.fallbacks, ["mobile-only"]);
+  assertEquals(evaluation.optionalUnavailable, ["SCALE"]);
+
+  const readyPassportReader = component(DeviceType.PASSPORT_READER, true);
+  assertEquals(evaluateManifest(manifest, [barcodeReader, printer, readyPassportReader]).met, true);
+});
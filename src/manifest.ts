@@ -0,0 +1,124 @@
+import {
+  ApplicationStateChangeReasonCodes as ChangeReason,
+  CUSSDataTypes,
+  MediaTypes,
+} from "cuss2-typescript-models";
+import { ComponentInterrogation } from "./componentInterrogation.ts";
+import type { Component } from "./models/Component.ts";
+import { DeviceType } from "./models/deviceType.ts";
+
+const { hasMediaType, hasDsType } = ComponentInterrogation;
+
+/**
+ * Matches components by capability. Every field given must match.
+ */
+export interface ComponentRequirement {
+  /**
+   * Name used when the requirement is reported as unmet
+   */
+  name?: string;
+  deviceType?: DeviceType;
+  mediaType?: MediaTypes;
+  dsType?: CUSSDataTypes;
+  /**
+   * Reason code sent with the UNAVAILABLE request when this requirement isn't met
+   */
+  reasonCode?: ChangeReason;
+}
+
+/**
+ * Met when at least one of the alternatives has a ready component
+ */
+export interface RequirementGroup {
+  name?: string;
+  anyOf: ComponentRequirement[];
+  /**
+   * Mode the application can run in without any of the alternatives, e.g. "mobile-only".
+   * When set, the group never makes the application UNAVAILABLE; the fallback is reported instead.
+   */
+  fallback?: string;
+  reasonCode?: ChangeReason;
+}
+
+export type Requirement = ComponentRequirement | RequirementGroup;
+
+export interface ComponentManifest {
+  required?: Requirement[];
+  optional?: Requirement[];
+}
+
+export interface UnmetRequirement {
+  name: string;
+  reasonCode: ChangeReason;
+  /**
+   * Discovered components that could meet the requirement but aren't ready
+   */
+  candidates: Component[];
+}
+
+export interface ManifestEvaluation {
+  met: boolean;
+  unmet: UnmetRequirement[];
+  /**
+   * Fallback modes of required groups with no ready component
+   */
+  fallbacks: string[];
+  /**
+   * Names of optional requirements with no ready component
+   */
+  optionalUnavailable: string[];
+}
+
+const alternatives = (requirement: Requirement): ComponentRequirement[] => {
+  return "anyOf" in requirement ? requirement.anyOf : [requirement];
+};
+
+const describe = (requirement: Requirement): string => {
+  if (requirement.name) return requirement.name;
+  return alternatives(requirement)
+    .map(({ name, deviceType, mediaType, dsType }) => name ?? [deviceType, mediaType, dsType].filter(Boolean).join("/"))
+    .join(" or ");
+};
+
+export const matchesRequirement = (component: Component, requirement: ComponentRequirement): boolean => {
+  const { deviceType, mediaType, dsType } = requirement;
+  return (deviceType === undefined || component.deviceType === deviceType) &&
+    (mediaType === undefined || hasMediaType(component._component, mediaType)) &&
+    (dsType === undefined || hasDsType(component._component, dsType));
+};
+
+const candidatesFor = (requirement: Requirement, components: Component[]): Component[] => {
+  return components.filter((component) => alternatives(requirement).some((a) => matchesRequirement(component, a)));
+};
+
+/**
+ * Marks the components that can meet a required entry of the manifest as required, and all others as not
+ */
+export const applyManifest = (manifest: ComponentManifest, components: Component[]): void => {
+  const required = new Set((manifest.required ?? []).flatMap((r) => candidatesFor(r, components)));
+  components.forEach((component) => component.required = required.has(component));
+};
+
+export const evaluateManifest = (manifest: ComponentManifest, components: Component[]): ManifestEvaluation => {
+  const unmet: UnmetRequirement[] = [];
+  const fallbacks: string[] = [];
+
+  for (const requirement of manifest.required ?? []) {
+    const candidates = candidatesFor(requirement, components);
+    if (candidates.some((c) => c.ready)) continue;
+
+    if ("anyOf" in requirement && requirement.fallback) {
+      fallbacks.push(requirement.fallback);
+    }
+    else {
+      const reasonCode = requirement.reasonCode ?? ChangeReason.NOTAPPLICABLE;
+      unmet.push({ name: describe(requirement), reasonCode, candidates });
+    }
+  }
+
+  const optionalUnavailable = (manifest.optional ?? [])
+    .filter((requirement) => !candidatesFor(requirement, components).some((c) => c.ready))
+    .map(describe);
+
+  return { met: !unmet.length, unmet, fallbacks, optionalUnavailable };
+};
@@ -0,0 +1,113 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import {
+  ApplicationActivation,
+  ApplicationStateChangeReasonCodes as ChangeReason,
+  ApplicationStateCodes as AppState,
+  ComponentTypes,
+  CUSSDataTypes,
+  MessageCodes,
+  PlatformDirectives,
+} from "cuss2-typescript-models";
+import { Connection } from "./connection.ts";
+import { Cuss2 } from "./cuss2.ts";
+import { Build } from "./helper.ts";
+import { KioskProfile, MockPlatform } from "./mockPlatform.ts";
+import { PlatformResponseError } from "./models/platformResponseError.ts";
+
+const profile: KioskProfile = {
+  deviceID: "11111111-2222-3333-4444-555555555555",
+  pingInterval: 0,
+  components: [{
+    componentID: 1,
+    componentType: ComponentTypes.DATAINPUT,
+    componentCharacteristics: [{ dsTypesList: [CUSSDataTypes.BARCODE] }],
+  }] as KioskProfile["components"],
+};
+
+Deno.test("MockPlatform should take an application from INITIALIZE to a passenger scan", async () => {
+  const platform = new MockPlatform(profile);
+  const cuss2 = await Cuss2.connect("https://kiosk.example", undefined, "client", "secret", undefined, {
+    transport: platform.transport(),
+    tokenProvider: platform.tokenProvider(),
+  });
+  assertEquals(cuss2.state, AppState.INITIALIZE);
+  assertEquals(cuss2.connection.deviceID, profile.deviceID);
+
+  await cuss2.requestAvailableState();
+  assertEquals(cuss2.state, AppState.AVAILABLE);
+  assertEquals(platform.state, AppState.AVAILABLE);
+
+  const activated = new Promise((resolve) => cuss2.once("activated", resolve));
+  platform.activate({ languageID: "fr-FR" } as ApplicationActivation);
+  await activated;
+  assertEquals(cuss2.language, "fr-FR");
+
+  const reader = cuss2.barcodeReader!;
+  await reader.enable();
+  assertEquals(platform.enabled.has(1), true);
+  const data = new Promise((resolve) => reader.once("data", resolve));
+  platform.present(1, ["M1DOE/JOHN"]);
+  assertEquals(await data, ["M1DOE/JOHN"]);
+
+  await cuss2.dispose();
+  assertEquals(platform.enabled.size, 0);
+});
+
+Deno.test("MockPlatform should refuse out of sequence state requests and unknown components", async () => {
+  const platform = new MockPlatform(profile);
+  const connection = await Connection.connect(
+    "https://kiosk.example",
+    profile.deviceID!,
+    "client",
+    "secret",
+    undefined,
+    undefined,
+    { transport: platform.transport(), tokenProvider: platform.tokenProvider() },
+  );
+  const stateRequest = (state: AppState) => Build.stateChange(state, ChangeReason.NOTAPPLICABLE, "");
+
+  const error = await assertRejects(
+    () => connection.sendAndGetResponse(stateRequest(AppState.ACTIVE)),
+    PlatformResponseError,
+  );
+  assertEquals(error.messageCode, MessageCodes.OUTOFSEQUENCE);
+  assertEquals(platform.state, AppState.INITIALIZE);
+
+  const response = await connection.sendAndGetResponse(stateRequest(AppState.UNAVAILABLE));
+  assertEquals(response.meta.currentApplicationState.applicationStateCode, AppState.UNAVAILABLE);
+
+  const query = Build.applicationData(PlatformDirectives.PeripheralsQuery, { componentID: "9" });
+  const unknown = await assertRejects(() => connection.sendAndGetResponse(query), PlatformResponseError);
+  assertEquals(unknown.messageCode, MessageCodes.NOTREACHABLE);
+  connection.close();
+});
+
+Deno.test("MockPlatform should follow its own transition table and answer with scripted failures", async () => {
+  const platform = new MockPlatform({
+    ...profile,
+    // A platform that never lets the application leave INITIALIZE
+    stateTransitions: { [AppState.INITIALIZE]: [AppState.STOPPED] },
+  });
+  const connection = await Connection.connect(
+    "https://kiosk.example",
+    profile.deviceID!,
+    "client",
+    "secret",
+    undefined,
+    undefined,
+    { transport: platform.transport(), tokenProvider: platform.tokenProvider() },
+  );
+  const stateRequest = Build.stateChange(AppState.UNAVAILABLE, ChangeReason.NOTAPPLICABLE, "");
+  const refused = await assertRejects(() => connection.sendAndGetResponse(stateRequest), PlatformResponseError);
+  assertEquals(refused.messageCode, MessageCodes.OUTOFSEQUENCE);
+
+  platform.state = AppState.AVAILABLE;
+  const directive = PlatformDirectives.PeripheralsSend;
+  platform.fail({ directive, componentID: 1, messageCode: MessageCodes.HARDWAREERROR });
+  const send = () => connection.sendAndGetResponse(Build.applicationData(directive, { componentID: "1" }));
+  const failed = await assertRejects(send, PlatformResponseError);
+  assertEquals(failed.messageCode, MessageCodes.HARDWAREERROR);
+  // Only the next request fails
+  assertEquals((await send()).meta.messageCode, MessageCodes.OK);
+  connection.close();
+});
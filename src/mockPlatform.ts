@@ -0,0 +1,432 @@
+import { EventEmitter } from "events";
+import {
+  ApplicationActivation,
+  ApplicationData,
+  ApplicationStateChangeReasonCodes as ChangeReason,
+  ApplicationStateCodes as AppState,
+  ComponentState,
+  DataRecord,
+  EnvironmentComponent,
+  EnvironmentLevel,
+  MessageCodes,
+  PlatformData,
+  PlatformDirectives,
+} from "cuss2-typescript-models";
+import { AuthResponse } from "./models/authResponse.ts";
+import { TokenProvider } from "./tokenProvider.ts";
+import { loopbackTransport, Transport, TransportFactory, TransportState } from "./transport.ts";
+
+export interface MockComponent extends EnvironmentComponent {
+  /**
+   * State the component starts in, default READY
+   */
+  componentState?: ComponentState;
+}
+
+/**
+ * Describes the kiosk a MockPlatform pretends to be. Plain JSON, so it can be kept in a file.
+ */
+export interface KioskProfile {
+  deviceID?: string;
+  /**
+   * Fields of the EnvironmentLevel returned for `platform_environment`
+   */
+  environment?: Partial<EnvironmentLevel>;
+  components?: MockComponent[];
+  /**
+   * Application state when the application first connects, default INITIALIZE
+   */
+  initialState?: AppState;
+  /**
+   * Sent with the move to ACTIVE
+   */
+  activation?: ApplicationActivation;
+  /**
+   * Milliseconds between pings, default 10000. `0` disables them.
+   */
+  pingInterval?: number;
+  /**
+   * Acknowledge every request before responding to it
+   */
+  acknowledge?: boolean;
+  /**
+   * Credentials the token endpoint accepts. Any are accepted when omitted.
+   */
+  client_id?: string;
+  client_secret?: string;
+  /**
+   * Seconds issued tokens are valid for, default 3600
+   */
+  tokenExpiresIn?: number;
+  /**
+   * States the application may request, by the state it is in, replacing the defaults per state.
+   * Lets tests model a platform that is stricter or more lenient than the CUSS2 specification.
+   */
+  stateTransitions?: Partial<Record<AppState, AppState[]>>;
+}
+
+/**
+ * A response a MockPlatform gives instead of handling the request, see `fail()`
+ */
+export interface ScriptedFailure {
+  directive: PlatformDirectives;
+  messageCode: MessageCodes;
+  /**
+   * Only requests for this component, any when omitted
+   */
+  componentID?: number;
+  /**
+   * Number of matching requests to fail, default 1
+   */
+  times?: number;
+}
+
+// The states the platform lets an application request, by the state it is in. Kept apart from the SDK's
+// STATE_TRANSITIONS, so that tests against the mock catch mistakes in that table.
+const PLATFORM_TRANSITIONS: Readonly<Record<string, readonly AppState[]>> = {
+  [AppState.STOPPED]: [],
+  [AppState.INITIALIZE]: [AppState.UNAVAILABLE, AppState.STOPPED],
+  [AppState.UNAVAILABLE]: [AppState.AVAILABLE, AppState.RELOAD, AppState.STOPPED],
+  [AppState.AVAILABLE]: [AppState.UNAVAILABLE, AppState.ACTIVE, AppState.RELOAD, AppState.STOPPED],
+  [AppState.ACTIVE]: [AppState.AVAILABLE, AppState.UNAVAILABLE, AppState.RELOAD, AppState.STOPPED],
+  [AppState.RELOAD]: [AppState.STOPPED],
+  [AppState.SUSPENDED]: [AppState.STOPPED],
+  [AppState.DISABLED]: [AppState.STOPPED],
+};
+
+// Application states in which peripherals can be used
+const PERIPHERAL_STATES = [AppState.AVAILABLE, AppState.ACTIVE];
+
+const DEFAULT_DEVICE_ID = "00000000-0000-0000-0000-000000000000";
+
+/**
+ * A stand-in for a CUSS2 platform, for integration tests and development without a kiosk.
+ * It answers the directives the SDK sends, moves the application between states and sends pings,
+ * and can play the passenger's and the hardware's part through `activate`, `present` and friends.
+ *
+ * Serve it in-process with `transport()` and `tokenProvider()`, or over the network with `serve()`.
+ * Emits `connection` (transport), `request` (ApplicationData) and `response` (PlatformData, ApplicationData).
+ */
+export class MockPlatform extends EventEmitter {
+  profile: KioskProfile;
+  state: AppState;
+  componentStates = new Map<number, ComponentState>();
+  // Last status reported for each component, returned when it is queried
+  componentStatus = new Map<number, MessageCodes>();
+  enabled = new Set<number>();
+  accessibleMode = false;
+  // Every request received, in order
+  requests: ApplicationData[] = [];
+  _clients = new Set<Transport>();
+  _tokens = new Set<string>();
+  _reasonCode = ChangeReason.NOTAPPLICABLE;
+  _reason = "";
+  _failures: ScriptedFailure[] = [];
+
+  constructor(profile: KioskProfile = {}) {
+    super();
+    this.profile = profile;
+    this.state = profile.initialState ?? AppState.INITIALIZE;
+    for (const component of profile.components ?? []) {
+      this.componentStates.set(Number(component.componentID), component.componentState ?? ComponentState.READY);
+    }
+  }
+
+  static async fromFile(path: string): Promise<MockPlatform> {
+    return new MockPlatform(JSON.parse(await Deno.readTextFile(path)));
+  }
+
+  get deviceID(): string {
+    return this.profile.deviceID ?? DEFAULT_DEVICE_ID;
+  }
+
+  get environment(): EnvironmentLevel {
+    return { ...this.profile.environment, deviceID: this.deviceID } as EnvironmentLevel;
+  }
+
+  get componentList(): EnvironmentComponent[] {
+    return (this.profile.components ?? []).map(({ componentState: _state, ...component }) => component);
+  }
+
+  issueToken(): AuthResponse {
+    const access_token = crypto.randomUUID();
+    this._tokens.add(access_token);
+    return { access_token, expires_in: this.profile.tokenExpiresIn ?? 3600, token_type: "Bearer" };
+  }
+
+  /**
+   * A token provider to pass as the `tokenProvider` connection option when connecting in-process
+   */
+  tokenProvider(): TokenProvider {
+    return { getToken: () => Promise.resolve(this.issueToken()) };
+  }
+
+  /**
+   * A transport factory to pass as the `transport` connection option when connecting in-process
+   */
+  transport(): TransportFactory {
+    return loopbackTransport((platformEnd) => this.accept(platformEnd));
+  }
+
+  /**
+   * Serves `/oauth/token` and the `/platform/subscribe` WebSocket, e.g. for `Cuss2.connect("http://localhost:22222")`
+   */
+  serve(options: Deno.ServeTcpOptions = { port: 22222 }): Deno.HttpServer {
+    return Deno.serve(options, (request) => this.handle(request));
+  }
+
+  handle(request: Request): Response | Promise<Response> {
+    const { pathname } = new URL(request.url);
+    if (pathname.endsWith("/platform/subscribe")) {
+      if (request.headers.get("upgrade")?.toLowerCase() !== "websocket") {
+        return new Response("Expected a WebSocket upgrade", { status: 426 });
+      }
+      const { socket, response } = Deno.upgradeWebSocket(request);
+      this.accept(socket);
+      return response;
+    }
+    if (pathname.endsWith("/oauth/token") && request.method === "POST") {
+      return this._token(request);
+    }
+    return new Response("Not found", { status: 404 });
+  }
+
+  async _token(request: Request): Promise<Response> {
+    const params = new URLSearchParams(await request.text());
+    let client_id = params.get("client_id");
+    let client_secret = params.get("client_secret");
+    const basic = request.headers.get("authorization")?.match(/^Basic (.+)$/i);
+    if (basic) {
+      [client_id, client_secret] = atob(basic[1]).split(":").map(decodeURIComponent);
+    }
+
+    const { client_id: expectedID, client_secret: expectedSecret } = this.profile;
+    if ((expectedID && expectedID !== client_id) || (expectedSecret && expectedSecret !== client_secret)) {
+      return Response.json({ error: "invalid_client" }, { status: 401 });
+    }
+    return Response.json(this.issueToken());
+  }
+
+  /**
+   * Serves an application connected through the given socket
+   */
+  accept(socket: Transport): void {
+    let pinger: ReturnType<typeof setInterval> | undefined;
+    const opened = () => {
+      this._clients.add(socket);
+      const interval = this.profile.pingInterval ?? 10000;
+      if (interval > 0) {
+        pinger = setInterval(() => socket.send(JSON.stringify({ ping: Date.now() })), interval);
+      }
+      this.emit("connection", socket);
+    };
+
+    if (socket.readyState === TransportState.OPEN) opened();
+    else socket.onopen = opened;
+    socket.onmessage = (event) => this._receive(socket, event.data);
+    socket.onclose = () => {
+      clearInterval(pinger);
+      this._clients.delete(socket);
+    };
+  }
+
+  _receive(socket: Transport, raw: string) {
+    let request: ApplicationData;
+    try {
+      request = JSON.parse(raw);
+    }
+    catch {
+      return;
+    }
+    // Pongs carry no meta
+    if (!request?.meta) return;
+
+    this.requests.push(request);
+    this.emit("request", request);
+
+    const token = request.meta.oauthToken;
+    if (!token || !this._tokens.has(token)) {
+      socket.close(4401, "Invalid token");
+      return;
+    }
+    if (this.profile.acknowledge) {
+      socket.send(JSON.stringify({ ackCode: "OK", requestID: request.meta.requestID }));
+    }
+    const response = this.respond(request);
+    socket.send(JSON.stringify(response));
+    this.emit("response", response, request);
+  }
+
+  /**
+   * The response to a request. Override to script other behaviour.
+   */
+  respond(request: ApplicationData): PlatformData {
+    const { requestID, directive } = request.meta;
+    const componentID = request.meta.componentID == null ? undefined : Number(request.meta.componentID);
+    const reply = (messageCode = MessageCodes.OK, payload?: PlatformData["payload"]) => {
+      return this._message({ requestID, platformDirective: directive, messageCode, componentID }, payload);
+    };
+
+    const failure = this._takeFailure(directive, componentID);
+    if (failure) return reply(failure);
+
+    switch (directive) {
+      case PlatformDirectives.PlatformEnvironment:
+        return reply(MessageCodes.OK, { environmentLevel: this.environment } as PlatformData["payload"]);
+      case PlatformDirectives.PlatformComponents:
+        return reply(MessageCodes.OK, { componentList: this.componentList } as PlatformData["payload"]);
+      case PlatformDirectives.PlatformApplicationsStaterequest:
+        return this._stateRequest(request, reply);
+      case PlatformDirectives.PlatformApplicationsTransferrequest:
+      case PlatformDirectives.PlatformApplicationsAcknowledgeAccessible:
+        return reply();
+    }
+
+    if (componentID === undefined) return reply(MessageCodes.DATAMISSING);
+    if (!this.componentStates.has(componentID)) return reply(MessageCodes.NOTREACHABLE);
+    if (directive === PlatformDirectives.PeripheralsQuery) {
+      return reply(this.componentStatus.get(componentID) ?? MessageCodes.OK);
+    }
+    if (!PERIPHERAL_STATES.includes(this.state)) return reply(MessageCodes.WRONGAPPLICATIONSTATE);
+    if (this.componentStates.get(componentID) !== ComponentState.READY) return reply(MessageCodes.NOTREACHABLE);
+
+    if (directive === PlatformDirectives.PeripheralsUserpresentEnable) {
+      this.enabled.add(componentID);
+    }
+    else if (directive === PlatformDirectives.PeripheralsUserpresentDisable) {
+      this.enabled.delete(componentID);
+    }
+    return reply();
+  }
+
+  /**
+   * Answers the next matching requests with an error instead of handling them, e.g. a printer jam:
+   * `platform.fail({ directive: PeripheralsSend, componentID, messageCode: MessageCodes.MEDIAJAMMED })`
+   */
+  fail(failure: ScriptedFailure): this {
+    this._failures.push({ times: 1, ...failure });
+    return this;
+  }
+
+  _takeFailure(directive: PlatformDirectives, componentID?: number): MessageCodes | undefined {
+    const index = this._failures.findIndex((f) =>
+      f.directive === directive && (f.componentID === undefined || f.componentID === componentID)
+    );
+    if (index < 0) return undefined;
+    const failure = this._failures[index];
+    failure.times = (failure.times ?? 1) - 1;
+    if (failure.times <= 0) this._failures.splice(index, 1);
+    return failure.messageCode;
+  }
+
+  canTransition(from: AppState, to: AppState): boolean {
+    const allowed = this.profile.stateTransitions?.[from] ?? PLATFORM_TRANSITIONS[from] ?? [];
+    return allowed.includes(to);
+  }
+
+  _stateRequest(
+    request: ApplicationData,
+    reply: (messageCode?: MessageCodes, payload?: PlatformData["payload"]) => PlatformData,
+  ): PlatformData {
+    const requested = request.payload?.applicationState;
+    if (!requested || !this.canTransition(this.state, requested.applicationStateCode)) {
+      return reply(MessageCodes.OUTOFSEQUENCE);
+    }
+    const state = requested.applicationStateCode;
+    this._setState(state, requested.applicationStateChangeReasonCode, requested.applicationStateChangeReason);
+    return reply(MessageCodes.OK, this._statePayload(state));
+  }
+
+  _setState(state: AppState, reasonCode = ChangeReason.NOTAPPLICABLE, reason = "") {
+    if (this.state === AppState.ACTIVE && state !== AppState.ACTIVE) {
+      this.enabled.clear();
+      this.accessibleMode = false;
+    }
+    if (state === AppState.ACTIVE && this.state !== AppState.ACTIVE) {
+      this.accessibleMode = this.profile.activation?.accessibleMode ?? false;
+    }
+    this.state = state;
+    this._reasonCode = reasonCode;
+    this._reason = reason ?? "";
+  }
+
+  _statePayload(state: AppState): PlatformData["payload"] | undefined {
+    if (state !== AppState.ACTIVE || !this.profile.activation) return undefined;
+    return { applicationActivation: this.profile.activation } as PlatformData["payload"];
+  }
+
+  _message(meta: Partial<PlatformData["meta"]>, payload?: PlatformData["payload"]): PlatformData {
+    const componentID = meta.componentID as number | undefined;
+    return {
+      meta: {
+        deviceID: this.deviceID,
+        ...meta,
+        componentState: componentID === undefined ? undefined : this.componentStates.get(componentID),
+        currentApplicationState: {
+          applicationStateCode: this.state,
+          applicationStateChangeReasonCode: this._reasonCode,
+          applicationStateChangeReason: this._reason,
+          accessibleMode: this.accessibleMode,
+        },
+      },
+      payload,
+    } as PlatformData;
+  }
+
+  /**
+   * Sends an unsolicited message to every connected application
+   */
+  broadcast(message: PlatformData) {
+    const data = JSON.stringify(message);
+    this._clients.forEach((socket) => socket.send(data));
+  }
+
+  /**
+   * Moves the application into a state on the platform's initiative
+   */
+  setState(state: AppState, reasonCode = ChangeReason.NOTAPPLICABLE, reason = "") {
+    this._setState(state, reasonCode, reason);
+    this.broadcast(this._message({ messageCode: MessageCodes.OK }, this._statePayload(state)));
+  }
+
+  /**
+   * Hands the kiosk to the application, as when a passenger picks it
+   */
+  activate(activation?: ApplicationActivation) {
+    if (activation) this.profile.activation = activation;
+    this.setState(AppState.ACTIVE);
+  }
+
+  deactivate(state = AppState.AVAILABLE) {
+    this.setState(state);
+  }
+
+  setComponentState(componentID: number, componentState: ComponentState, messageCode = MessageCodes.OK) {
+    this.componentStates.set(componentID, componentState);
+    this.componentStatus.set(componentID, messageCode);
+    if (componentState !== ComponentState.READY) this.enabled.delete(componentID);
+    this.broadcast(this._message({ messageCode, componentID }));
+  }
+
+  /**
+   * Reports data read by a component, e.g. a scanned barcode. Only enabled components report data.
+   */
+  present(componentID: number, records: (string | DataRecord)[]): boolean {
+    if (!this.enabled.has(componentID)) return false;
+    const dataRecords = records.map((record) => typeof record === "string" ? { data: record } as DataRecord : record);
+    const payload = { dataRecords } as PlatformData["payload"];
+    this.broadcast(this._message({ messageCode: MessageCodes.DATAPRESENT, componentID }, payload));
+    return true;
+  }
+
+  close(code = 1000, reason = "") {
+    this._clients.forEach((socket) => socket.close(code, reason));
+  }
+}
+
+// deno run --allow-net --allow-read src/mockPlatform.ts [profile.json] [port]
+if (import.meta.main) {
+  const [profilePath, port = "22222"] = Deno.args;
+  const platform = profilePath ? await MockPlatform.fromFile(profilePath) : new MockPlatform();
+  platform.serve({ port: Number(port) });
+}
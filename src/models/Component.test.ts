@@ -1,9 +1,11 @@
-import {assert, assertEquals, assertExists} from "jsr:@std/assert";
+import {assert, assertEquals, assertExists, assertRejects} from "jsr:@std/assert";
 import {EventEmitter} from "events";
 import {Component} from "./Component.ts";
 import {Cuss2} from "../cuss2.ts";
 import {ComponentAPI} from "./ComponentAPI.ts";
 import {DeviceType} from "./deviceType.ts";
+import {ComponentOwnershipError} from "./Errors.ts";
+import {PlatformResponseError} from "./platformResponseError.ts";
 import {
 	ApplicationStateChangeReasonCodes,
 	ApplicationStateCodes,
@@ -36,6 +38,7 @@ const createMeta = (componentID: number, messageCode=MessageCodes.OK) => ({
 class MockCuss2 extends EventEmitter {
   api: MockComponentAPI;
   components: Record<number, Component> = {};
+  multiTenant = false;
 
   constructor() {
     super();
@@ -111,6 +114,16 @@ class MockComponentAPI implements ComponentAPI {
     return Promise.resolve({} as PlatformData);
   }
 
+  transferrequest(): Promise<PlatformData> {
+    this.calls.push({ method: "transferrequest", componentID: -1 });
+    return Promise.resolve({} as PlatformData);
+  }
+
+  acknowledgeAccessible(): Promise<PlatformData> {
+    this.calls.push({ method: "acknowledgeAccessible", componentID: -1 });
+    return Promise.resolve({} as PlatformData);
+  }
+
   announcement = {
     play: (componentID: number, rawData: string): Promise<PlatformData> => {
       this.calls.push({ method: "announcement.play", componentID, args: rawData });
@@ -351,6 +364,32 @@ Deno.test("Component disable method should handle OUTOFSEQUENCE errors", async (
   assertEquals(result.meta.messageCode, MessageCodes.OUTOFSEQUENCE);
 });
 
+Deno.test("Component should not take over a component another application holds in MAM mode", async () => {
+  const { component, cuss2 } = createTestComponent();
+  cuss2.multiTenant = true;
+  const owners: string[] = [];
+  component.on("ownershipChange", (owner) => owners.push(owner));
+
+  // The platform refuses the component while another application uses it
+  (cuss2.api as MockComponentAPI).enable = (componentID: number) => {
+    const refusal = { meta: createMeta(componentID, MessageCodes.WRONGAPPLICATIONSTATE) } as PlatformData;
+    return Promise.reject(new PlatformResponseError(refusal));
+  };
+  await assertRejects(() => component.enable());
+  assertEquals(component.owner, "other");
+
+  // Neither enable nor disable reaches the platform until the component is handed back
+  await assertRejects(() => component.enable(), ComponentOwnershipError);
+  await assertRejects(() => component.disable(), ComponentOwnershipError);
+  assertEquals((cuss2.api as MockComponentAPI).calls.length, 0);
+
+  component._setOwner("none");
+  (cuss2.api as MockComponentAPI).enable = MockComponentAPI.prototype.enable;
+  await component.enable();
+  await component.disable();
+  assertEquals(owners, ["other", "none", "application", "none"]);
+});
+
 Deno.test("Component stateIsDifferent should correctly identify state changes", () => {
   const { component } = createTestComponent();
 
@@ -460,3 +499,17 @@ Deno.test("Component pollUntilReady starts polling when required", () => {
     globalThis.clearTimeout = originalClearTimeout;
   }
 });
+
+Deno.test("Component detach should stop polling and stop listening to Cuss2", () => {
+  const { component, cuss2 } = createTestComponent();
+  component.required = true;
+  component.pollUntilReady(false, 60000);
+  assertExists(component._poller);
+  component.on("statusChange", () => {});
+
+  component.detach();
+  assertEquals(component._poller, undefined);
+  assertEquals(cuss2.listenerCount("message"), 0);
+  assertEquals(cuss2.listenerCount("deactivated"), 0);
+  assertEquals(component.listenerCount("statusChange"), 0);
+});
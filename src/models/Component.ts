@@ -14,11 +14,33 @@ import {
 } from "cuss2-typescript-models";
 import { DeviceType } from "./deviceType.ts";
 import { ComponentAPI } from "./ComponentAPI.ts";
+import { TypedListen } from "./typedEvents.ts";
+import { ComponentOwnershipError } from "./Errors.ts";
+import { PlatformResponseError } from "./platformResponseError.ts";
+
+/**
+ * Who holds a component in multi-application (MAM) mode: this application, another one, or nobody
+ */
+export type ComponentOwner = "application" | "other" | "none";
+
+export interface ComponentEvents {
+  message: [PlatformData];
+  readyStateChange: [boolean];
+  statusChange: [MessageCodes];
+  ownershipChange: [ComponentOwner, ComponentOwner];
+}
 
 export class Component extends EventEmitter {
+  declare on: TypedListen<ComponentEvents, this>;
+  declare once: TypedListen<ComponentEvents, this>;
+  declare off: TypedListen<ComponentEvents, this>;
+
   _component: EnvironmentComponent;
   id: number;
   api!: ComponentAPI; // Using definite assignment assertion
+  multiTenant!: boolean;
+  // Only tracked in multi-application mode
+  owner: ComponentOwner = "none";
   required: boolean = false;
   _status: MessageCodes = MessageCodes.OK;
   _componentState: ComponentState = ComponentState.UNAVAILABLE;
@@ -29,6 +51,7 @@ export class Component extends EventEmitter {
   _poller: ReturnType<typeof setTimeout> | undefined;
   parent: Component | null;
   subcomponents: Component[] = [];
+  _unsubscribe: () => void;
 
   get ready(): boolean {
     return this._componentState === ComponentState.READY;
@@ -57,18 +80,30 @@ export class Component extends EventEmitter {
       get: () => cuss2.api,
       enumerable: false,
     });
+    Object.defineProperty(this, "multiTenant", {
+      get: () => !!cuss2.multiTenant,
+      enumerable: false,
+    });
 
     // Subscribe to platform messages
-    cuss2.on("message", (data: PlatformData) => {
+    const onMessage = (data: PlatformData) => {
       if (data?.meta?.componentID === this.id) {
         this._handleMessage(data);
       }
-    });
+    };
+    cuss2.on("message", onMessage);
 
     // Subscribe to deactivation events
-    cuss2.on("deactivated", () => {
+    const onDeactivated = () => {
       this.enabled = false;
-    });
+      if (this.owner === "application") this._setOwner("none");
+    };
+    cuss2.on("deactivated", onDeactivated);
+
+    this._unsubscribe = () => {
+      cuss2.off("message", onMessage);
+      cuss2.off("deactivated", onDeactivated);
+    };
 
     if (component.linkedComponentIDs?.length) {
       const name = this.deviceType;
@@ -130,6 +165,36 @@ export class Component extends EventEmitter {
     poll();
   }
 
+  /**
+   * Stops polling, unsubscribes from the Cuss2 instance and removes the component's own listeners.
+   * Used when the component is no longer part of the platform's component list.
+   */
+  detach(): void {
+    if (this._poller) {
+      clearTimeout(this._poller);
+      this._poller = undefined;
+    }
+    this._unsubscribe();
+    this.removeAllListeners();
+  }
+
+  _setOwner(owner: ComponentOwner): void {
+    if (owner === this.owner) return;
+    const previous = this.owner;
+    this.owner = owner;
+    if (owner === "other") {
+      this.enabled = false;
+    }
+    this.emit("ownershipChange", owner, previous);
+  }
+
+  /**
+   * True when another application holds this component in multi-application mode
+   */
+  get ownedByOther(): boolean {
+    return this.multiTenant && this.owner === "other";
+  }
+
   _handleMessage(data: PlatformData) {
     this.emit("message", data);
   }
@@ -148,21 +213,41 @@ export class Component extends EventEmitter {
   }
 
   async enable(): Promise<PlatformData> {
-    const r = await this._call(() => this.api.enable(this.id));
-    this.enabled = true;
-    return r;
+    if (this.ownedByOther) {
+      throw new ComponentOwnershipError(this.id, "enable");
+    }
+    try {
+      const r = await this._call(() => this.api.enable(this.id));
+      this.enabled = true;
+      if (this.multiTenant) this._setOwner("application");
+      return r;
+    }
+    catch (e: unknown) {
+      // In multi-application mode the platform refuses components another application holds
+      const refused = e instanceof PlatformResponseError && e.messageCode === MessageCodes.WRONGAPPLICATIONSTATE;
+      if (this.multiTenant && refused) {
+        this._setOwner("other");
+      }
+      return Promise.reject(e);
+    }
   }
 
   async disable(): Promise<PlatformData> {
+    // Disabling would take the component away from the application holding it
+    if (this.ownedByOther) {
+      throw new ComponentOwnershipError(this.id, "disable");
+    }
     try {
       const r = await this._call(() => this.api.disable(this.id));
       this.enabled = false;
+      if (this.multiTenant) this._setOwner("none");
       return r;
     }
     catch (e: unknown) {
       const pd = e as PlatformData;
       if (pd.meta.messageCode === MessageCodes.OUTOFSEQUENCE) {
         this.enabled = false;
+        if (this.multiTenant) this._setOwner("none");
         return pd;
       }
       return Promise.reject(e);
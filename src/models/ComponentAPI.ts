@@ -1,6 +1,7 @@
 import {
   ApplicationStateChangeReasonCodes,
   ApplicationStateCodes,
+  ApplicationTransfer,
   BaggageData,
   CommonUsePaymentMessage,
   ComponentList,
@@ -11,45 +12,47 @@ import {
   PlatformData,
   ScreenResolution,
 } from "cuss2-typescript-models";
+import { RequestOptions } from "./requestOptions.ts";
 
 /**
- * Interface defining the API methods available for interacting with CUSS2 components
+ * Interface defining the API methods available for interacting with CUSS2 components.
+ * Every method accepts optional RequestOptions to bound or cancel the wait for the platform response.
  */
 export interface ComponentAPI {
   /**
    * Gets environment information from the CUSS2 platform
    */
-  getEnvironment: () => Promise<EnvironmentLevel>;
+  getEnvironment: (options?: RequestOptions) => Promise<EnvironmentLevel>;
 
   /**
    * Gets the list of available components from the CUSS2 platform
    */
-  getComponents: () => Promise<ComponentList>;
+  getComponents: (options?: RequestOptions) => Promise<ComponentList>;
 
   /**
    * Enable a component for user interaction
    */
-  enable: (componentID: number) => Promise<PlatformData>;
+  enable: (componentID: number, options?: RequestOptions) => Promise<PlatformData>;
 
   /**
    * Disable a component from user interaction
    */
-  disable: (componentID: number) => Promise<PlatformData>;
+  disable: (componentID: number, options?: RequestOptions) => Promise<PlatformData>;
 
   /**
    * Cancel the current operation on a component
    */
-  cancel: (componentID: number) => Promise<PlatformData>;
+  cancel: (componentID: number, options?: RequestOptions) => Promise<PlatformData>;
 
   /**
    * Query the status of a component
    */
-  getStatus: (componentID: number) => Promise<PlatformData>;
+  getStatus: (componentID: number, options?: RequestOptions) => Promise<PlatformData>;
 
   /**
    * Configure a component with setup data
    */
-  setup: (componentID: number, dataObj: DataRecordList) => Promise<PlatformData>;
+  setup: (componentID: number, dataObj: DataRecordList, options?: RequestOptions) => Promise<PlatformData>;
 
   /**
    * Send data to a component
@@ -63,12 +66,13 @@ export interface ComponentAPI {
       | BaggageData
       | CommonUsePaymentMessage
       | CUSS2BiometricsDomainCommonUseBiometricMessage,
+    options?: RequestOptions,
   ) => Promise<PlatformData>;
 
   /**
    * Offer a component to the user
    */
-  offer: (componentID: number) => Promise<PlatformData>;
+  offer: (componentID: number, options?: RequestOptions) => Promise<PlatformData>;
 
   /**
    * Request a state change for the application
@@ -77,8 +81,19 @@ export interface ComponentAPI {
     state: ApplicationStateCodes,
     reasonCode?: ApplicationStateChangeReasonCodes,
     reason?: string,
+    options?: RequestOptions,
   ) => Promise<PlatformData | undefined>;
 
+  /**
+   * Request the transfer of the passenger session to another application
+   */
+  transferrequest: (transfer: ApplicationTransfer, options?: RequestOptions) => Promise<PlatformData>;
+
+  /**
+   * Acknowledge to the platform that the application is operating in accessible mode
+   */
+  acknowledgeAccessible: (options?: RequestOptions) => Promise<PlatformData>;
+
   /**
    * Announcement-specific operations
    */
@@ -86,21 +101,21 @@ export interface ComponentAPI {
     /**
      * Play an announcement
      */
-    play: (componentID: number, rawData: string) => Promise<PlatformData>;
+    play: (componentID: number, rawData: string, options?: RequestOptions) => Promise<PlatformData>;
 
     /**
      * Stop an announcement
      */
-    stop: (componentID: number) => Promise<PlatformData>;
+    stop: (componentID: number, options?: RequestOptions) => Promise<PlatformData>;
 
     /**
      * Pause an announcement
      */
-    pause: (componentID: number) => Promise<PlatformData>;
+    pause: (componentID: number, options?: RequestOptions) => Promise<PlatformData>;
 
     /**
      * Resume a paused announcement
      */
-    resume: (componentID: number) => Promise<PlatformData>;
+    resume: (componentID: number, options?: RequestOptions) => Promise<PlatformData>;
   };
 }
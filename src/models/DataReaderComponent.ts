@@ -1,7 +1,16 @@
-import { Component } from "./Component.ts";
+import { Component, ComponentEvents } from "./Component.ts";
 import { DataRecord, MessageCodes, PlatformData } from "cuss2-typescript-models";
+import { TypedListen } from "./typedEvents.ts";
+
+export interface DataReaderEvents extends ComponentEvents {
+  data: [string[]];
+}
 
 export class DataReaderComponent extends Component {
+  declare on: TypedListen<DataReaderEvents, this>;
+  declare once: TypedListen<DataReaderEvents, this>;
+  declare off: TypedListen<DataReaderEvents, this>;
+
   previousData: string[] = [];
 
   override _handleMessage(data: PlatformData) {
@@ -1,10 +1,19 @@
-import { Component } from "./Component.ts";
+import { Component, ComponentEvents } from "./Component.ts";
 import { DeviceType } from "./deviceType.ts";
 import { Cuss2 } from "../cuss2.ts";
 import { EnvironmentComponent, MessageCodes } from "cuss2-typescript-models";
 import { Printer } from "./Printer.ts";
+import { TypedListen } from "./typedEvents.ts";
+
+export interface DispenserEvents extends ComponentEvents {
+  mediaPresent: [boolean];
+}
 
 export class Dispenser extends Component {
+  declare on: TypedListen<DispenserEvents, this>;
+  declare once: TypedListen<DispenserEvents, this>;
+  declare off: TypedListen<DispenserEvents, this>;
+
   printer?: Printer;
   private _mediaPresent: boolean = false;
 
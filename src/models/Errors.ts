@@ -1,3 +1,6 @@
+import type { ApplicationStateCodes, PlatformDirectives, UniqueID } from "cuss2-typescript-models";
+import type { ValidationIssue } from "./validationIssue.ts";
+
 export class Cuss2Error extends Error {
   constructor(message: string) {
     super(message);
@@ -15,3 +18,102 @@ export class AuthenticationError extends Cuss2Error {
     this.status = status;
   }
 }
+
+export class RequestTimeoutError extends Cuss2Error {
+  directive?: PlatformDirectives;
+  requestID: UniqueID;
+  timeout: number;
+
+  constructor(requestID: UniqueID, timeout: number, directive?: PlatformDirectives) {
+    super(`Request ${requestID}${directive ? ` (${directive})` : ""} timed out after ${timeout}ms`);
+    this.requestID = requestID;
+    this.timeout = timeout;
+    this.directive = directive;
+  }
+}
+
+export class MessageDroppedError extends Cuss2Error {
+  requestID?: UniqueID;
+  reason: "overflow" | "expired" | "closed";
+
+  constructor(requestID: UniqueID | undefined, reason: "overflow" | "expired" | "closed") {
+    super(`Queued message ${requestID ?? ""} was dropped (${reason})`);
+    this.requestID = requestID;
+    this.reason = reason;
+  }
+}
+
+export class MessageVetoedError extends Cuss2Error {
+  directive?: PlatformDirectives;
+  requestID?: UniqueID;
+
+  constructor(requestID?: UniqueID, directive?: PlatformDirectives) {
+    super(`Request ${requestID ?? ""}${directive ? ` (${directive})` : ""} was vetoed by an interceptor`);
+    this.requestID = requestID;
+    this.directive = directive;
+  }
+}
+
+export class AcknowledgementTimeoutError extends Cuss2Error {
+  directive?: PlatformDirectives;
+  requestID: UniqueID;
+  timeout: number;
+
+  constructor(requestID: UniqueID, timeout: number, directive?: PlatformDirectives) {
+    super(`Request ${requestID}${directive ? ` (${directive})` : ""} was not acknowledged within ${timeout}ms`);
+    this.requestID = requestID;
+    this.timeout = timeout;
+    this.directive = directive;
+  }
+}
+
+export class PlatformDataValidationError extends Cuss2Error {
+  issues: ValidationIssue[];
+  data: unknown;
+
+  constructor(issues: ValidationIssue[], data: unknown) {
+    super(`Invalid platform message: ${issues.map((i) => `${i.path} ${i.message}`).join("; ")}`);
+    this.issues = issues;
+    this.data = data;
+  }
+}
+
+export class ApplicationStateError extends Cuss2Error {
+  state: ApplicationStateCodes;
+  allowed: ApplicationStateCodes[];
+
+  constructor(action: string, state: ApplicationStateCodes, allowed: ApplicationStateCodes[]) {
+    super(`Cannot ${action} in ${state} state (requires ${allowed.join(" or ")})`);
+    this.state = state;
+    this.allowed = allowed;
+  }
+}
+
+export class IllegalStateTransitionError extends ApplicationStateError {
+  requested: ApplicationStateCodes;
+
+  constructor(state: ApplicationStateCodes, requested: ApplicationStateCodes, allowed: ApplicationStateCodes[]) {
+    super(`request the ${requested} state`, state, allowed);
+    this.requested = requested;
+  }
+}
+
+export class ComponentOwnershipError extends Cuss2Error {
+  componentID: number;
+
+  constructor(componentID: number, action: string) {
+    super(`Cannot ${action} component ${componentID}: another application is using it`);
+    this.componentID = componentID;
+  }
+}
+
+export class ApplicationTransferError extends Cuss2Error {
+  targetApplicationID: string;
+  override cause: unknown;
+
+  constructor(targetApplicationID: string, cause: unknown) {
+    super(`Transfer to application ${targetApplicationID} failed`);
+    this.targetApplicationID = targetApplicationID;
+    this.cause = cause;
+  }
+}
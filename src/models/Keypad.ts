@@ -1,9 +1,31 @@
-import { Component } from "./Component.ts";
+import { Component, ComponentEvents } from "./Component.ts";
 import { DeviceType } from "./deviceType.ts";
 import { Cuss2 } from "../cuss2.ts";
 import { EnvironmentComponent, PlatformData } from "cuss2-typescript-models";
+import { TypedListen } from "./typedEvents.ts";
+
+export interface KeypadData {
+  UP: boolean;
+  DOWN: boolean;
+  PREVIOUS: boolean;
+  NEXT: boolean;
+  ENTER: boolean;
+  HOME: boolean;
+  END: boolean;
+  HELP: boolean;
+  VOLUMEUP: boolean;
+  VOLUMEDOWN: boolean;
+}
+
+export interface KeypadEvents extends ComponentEvents {
+  keypadData: [KeypadData];
+}
 
 export class Keypad extends Component {
+  declare on: TypedListen<KeypadEvents, this>;
+  declare once: TypedListen<KeypadEvents, this>;
+  declare off: TypedListen<KeypadEvents, this>;
+
   constructor(component: EnvironmentComponent, cuss2: Cuss2) {
     super(component, cuss2, DeviceType.KEY_PAD);
   }
@@ -15,7 +37,7 @@ export class Keypad extends Component {
     const dataRecords = message.payload?.dataRecords;
     if (dataRecords?.length) {
       const data = dataRecords.map((dr) => dr.data);
-      const keypadData = {
+      const keypadData: KeypadData = {
         UP: data.includes("NAVUP"),
         DOWN: data.includes("NAVDOWN"),
         PREVIOUS: data.includes("NAVPREVIOUS"),
@@ -1,4 +1,4 @@
-import { Component } from "./Component.ts";
+import { Component, ComponentEvents } from "./Component.ts";
 import { Feeder } from "./Feeder.ts";
 import { Dispenser } from "./Dispenser.ts";
 import { DeviceType } from "./deviceType.ts";
@@ -15,8 +15,18 @@ import {
   PlatformDirectives,
 } from "cuss2-typescript-models";
 import { PlatformResponseError } from "./platformResponseError.ts";
+import { TypedListen } from "./typedEvents.ts";
+
+export interface PrinterEvents extends ComponentEvents {
+  combinedReadyStateChange: [boolean];
+  combinedStatusChange: [MessageCodes];
+}
 
 export class Printer extends Component {
+  declare on: TypedListen<PrinterEvents, this>;
+  declare once: TypedListen<PrinterEvents, this>;
+  declare off: TypedListen<PrinterEvents, this>;
+
   constructor(
     component: EnvironmentComponent,
     cuss2: Cuss2,
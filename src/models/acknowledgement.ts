@@ -0,0 +1,11 @@
+import type { UniqueID } from "cuss2-typescript-models";
+
+/**
+ * Sent by the platform when it has received a request, ahead of the final PlatformData response
+ */
+export interface Acknowledgement {
+  ackCode: string | number;
+  requestID?: UniqueID;
+  meta?: { requestID?: UniqueID };
+  [key: string]: unknown;
+}
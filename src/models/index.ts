@@ -1,6 +1,8 @@
 // Base component classes
 export { Component } from "./Component.ts";
+export type { ComponentEvents, ComponentOwner } from "./Component.ts";
 export { DataReaderComponent } from "./DataReaderComponent.ts";
+export type { DataReaderEvents } from "./DataReaderComponent.ts";
 
 // Reader components
 export { BarcodeReader } from "./BarcodeReader.ts";
@@ -14,13 +16,16 @@ export { BHS } from "./BHS.ts";
 
 // Printer components
 export { Printer } from "./Printer.ts";
+export type { PrinterEvents } from "./Printer.ts";
 export { BagTagPrinter } from "./BagTagPrinter.ts";
 export { BoardingPassPrinter } from "./BoardingPassPrinter.ts";
 export { Feeder } from "./Feeder.ts";
 export { Dispenser } from "./Dispenser.ts";
+export type { DispenserEvents } from "./Dispenser.ts";
 
 // Input/Output components
 export { Keypad } from "./Keypad.ts";
+export type { KeypadData, KeypadEvents } from "./Keypad.ts";
 export { Announcement } from "./Announcement.ts";
 export { Illumination } from "./Illumination.ts";
 export { Headset } from "./Headset.ts";
@@ -34,6 +39,23 @@ export { ParkingBelt } from "./ParkingBelt.ts";
 // Types
 export { DeviceType } from "./deviceType.ts";
 export { PlatformResponseError } from "./platformResponseError.ts";
+export {
+  AcknowledgementTimeoutError,
+  ApplicationStateError,
+  ApplicationTransferError,
+  AuthenticationError,
+  ComponentOwnershipError,
+  Cuss2Error,
+  IllegalStateTransitionError,
+  MessageDroppedError,
+  MessageVetoedError,
+  PlatformDataValidationError,
+  RequestTimeoutError,
+} from "./Errors.ts";
+export type { RequestOptions } from "./requestOptions.ts";
+export type { Acknowledgement } from "./acknowledgement.ts";
+export type { ValidationIssue } from "./validationIssue.ts";
+export type { EventMap, TypedListen } from "./typedEvents.ts";
 
 // Re-export types from the models
 export type { DataRecord, EnvironmentComponent, PlatformData } from "cuss2-typescript-models";
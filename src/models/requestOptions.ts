@@ -0,0 +1,21 @@
+/**
+ * Per-call options accepted by every request sent to the CUSS2 platform
+ */
+export interface RequestOptions {
+  /**
+   * Milliseconds to wait for the platform response before rejecting with a RequestTimeoutError.
+   * Overrides the connection defaults; `0` waits forever.
+   */
+  timeout?: number;
+
+  /**
+   * Milliseconds to wait for the platform to acknowledge receiving the request, rejecting with an
+   * AcknowledgementTimeoutError. Overrides the connection default; `0` does not require an acknowledgement.
+   */
+  ackTimeout?: number;
+
+  /**
+   * Stops waiting for the platform response when aborted
+   */
+  signal?: AbortSignal;
+}
@@ -1,11 +1,32 @@
-import { ApplicationStateCodes } from "cuss2-typescript-models";
+import { ApplicationStateChangeReasonCodes, ApplicationStateCodes } from "cuss2-typescript-models";
+
+/**
+ * Who caused a state change: the application by requesting it, or the platform on its own
+ */
+export type StateChangeInitiator = "application" | "platform";
+
+export interface StateChangeDetails {
+  timestamp?: number;
+  reasonCode?: ApplicationStateChangeReasonCodes;
+  reason?: string;
+  initiator?: StateChangeInitiator;
+}
 
 export class StateChange {
   previous: ApplicationStateCodes;
   current: ApplicationStateCodes;
+  // Milliseconds since the epoch at which the change was observed
+  timestamp: number;
+  reasonCode?: ApplicationStateChangeReasonCodes;
+  reason?: string;
+  initiator: StateChangeInitiator;
 
-  constructor(previous: ApplicationStateCodes, current: ApplicationStateCodes) {
+  constructor(previous: ApplicationStateCodes, current: ApplicationStateCodes, details: StateChangeDetails = {}) {
     this.previous = previous;
     this.current = current;
+    this.timestamp = details.timestamp ?? Date.now();
+    this.reasonCode = details.reasonCode;
+    this.reason = details.reason;
+    this.initiator = details.initiator ?? "platform";
   }
 }
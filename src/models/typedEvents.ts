@@ -0,0 +1,12 @@
+/**
+ * Maps each event name to the arguments its listeners receive
+ */
+export type EventMap<T> = { [K in keyof T]: unknown[] };
+
+/**
+ * Signature of `on`, `once` and `off` restricted to the events in `Events`
+ */
+export type TypedListen<Events extends EventMap<Events>, This> = <K extends keyof Events & string>(
+  event: K,
+  listener: (...args: Events[K]) => void,
+) => This;
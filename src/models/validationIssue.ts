@@ -0,0 +1,8 @@
+export interface ValidationIssue {
+  /**
+   * Dotted path of the offending field, e.g. `meta.messageCode`
+   */
+  path: string;
+  message: string;
+  value?: unknown;
+}
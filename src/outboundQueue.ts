@@ -0,0 +1,124 @@
+import type { ApplicationData } from "cuss2-typescript-models";
+import { MessageDroppedError } from "./models/Errors.ts";
+
+/**
+ * What to do when a message is queued while the queue is full:
+ * - `dropOldest` discards the message that has waited longest
+ * - `dropNewest` refuses the message being queued
+ */
+export type DropPolicy = "dropOldest" | "dropNewest";
+
+export interface OutboundQueueOptions {
+  /**
+   * Maximum number of messages held while the socket is down
+   */
+  maxSize?: number;
+
+  /**
+   * Milliseconds a message may wait before it is discarded instead of replayed
+   */
+  maxAge?: number;
+
+  /**
+   * Which message to discard when the queue is full
+   */
+  dropPolicy?: DropPolicy;
+}
+
+interface QueuedMessage {
+  data: ApplicationData;
+  expiresAt: number;
+  send: () => void;
+  drop: (error: MessageDroppedError) => void;
+}
+
+/**
+ * Bounded FIFO buffer for outbound messages sent while the socket is reconnecting.
+ * Messages are replayed in order by `flush` once the socket is open again.
+ */
+export class OutboundQueue {
+  maxSize: number;
+  maxAge: number;
+  dropPolicy: DropPolicy;
+  onDrop?: (error: MessageDroppedError) => void;
+  _messages: QueuedMessage[] = [];
+
+  constructor(options: OutboundQueueOptions = {}) {
+    this.maxSize = options.maxSize ?? 50;
+    this.maxAge = options.maxAge ?? 30000; //ms
+    this.dropPolicy = options.dropPolicy ?? "dropOldest";
+  }
+
+  get size(): number {
+    return this._messages.length;
+  }
+
+  /**
+   * Holds `data` until the next flush, then resolves with the result of `dispatch`.
+   * Rejects with MessageDroppedError if the message is discarded, or with the abort reason.
+   */
+  enqueue<T>(data: ApplicationData, dispatch: () => T, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const requestID = data.meta?.requestID;
+      const onAbort = () => {
+        this._messages = this._messages.filter((m) => m !== message);
+        reject(signal?.reason);
+      };
+      const message: QueuedMessage = {
+        data,
+        expiresAt: Date.now() + this.maxAge,
+        send: () => {
+          signal?.removeEventListener("abort", onAbort);
+          try {
+            resolve(dispatch());
+          }
+          catch (e) {
+            reject(e);
+          }
+        },
+        drop: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          this.onDrop?.(error);
+          reject(error);
+        },
+      };
+
+      if (this._messages.length >= this.maxSize) {
+        if (this.dropPolicy === "dropNewest") {
+          return message.drop(new MessageDroppedError(requestID, "overflow"));
+        }
+        const oldest = this._messages.shift();
+        oldest?.drop(new MessageDroppedError(oldest.data.meta?.requestID, "overflow"));
+      }
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this._messages.push(message);
+    });
+  }
+
+  /**
+   * Sends every queued message in order, discarding those that expired while waiting
+   */
+  flush(): void {
+    const now = Date.now();
+    const messages = this._messages;
+    this._messages = [];
+    for (const message of messages) {
+      if (message.expiresAt < now) {
+        message.drop(new MessageDroppedError(message.data.meta?.requestID, "expired"));
+      }
+      else {
+        message.send();
+      }
+    }
+  }
+
+  /**
+   * Discards every queued message
+   */
+  clear(): void {
+    const messages = this._messages;
+    this._messages = [];
+    messages.forEach((m) => m.drop(new MessageDroppedError(m.data.meta?.requestID, "closed")));
+  }
+}
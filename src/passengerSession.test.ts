@@ -0,0 +1,37 @@
+import { assertEquals } from "jsr:@std/assert";
+import {
+  ApplicationActivation,
+  ApplicationStateCodes,
+  MessageCodes,
+  PlatformData,
+  PlatformDirectives,
+} from "cuss2-typescript-models";
+import { Build } from "./helper.ts";
+import { Component } from "./models/Component.ts";
+import { DeviceType } from "./models/deviceType.ts";
+import { PassengerSession } from "./passengerSession.ts";
+
+Deno.test("PassengerSession should track used components and their errors", () => {
+  let time = 1000;
+  const activation = { languageID: "fr-FR" } as ApplicationActivation;
+  const session = new PassengerSession(activation, "fr-FR", true, () => time);
+
+  session.recordRequest(Build.applicationData(PlatformDirectives.PeripheralsUserpresentEnable, { componentID: "3" }));
+  session.recordRequest(Build.applicationData(PlatformDirectives.PeripheralsQuery, { componentID: "4" }));
+  const response = (componentID: number, messageCode: MessageCodes, platformDirective: PlatformDirectives) =>
+    ({ meta: { componentID, messageCode, platformDirective } }) as unknown as PlatformData;
+  session.recordResponse(response(3, MessageCodes.MEDIAJAMMED, PlatformDirectives.PeripheralsSend));
+  session.recordResponse(response(4, MessageCodes.HARDWAREERROR, PlatformDirectives.PeripheralsQuery));
+
+  time = 4000;
+  const components = { 3: { deviceType: DeviceType.BOARDING_PASS_PRINTER } as Component };
+  const summary = session.end(ApplicationStateCodes.AVAILABLE, components);
+
+  assertEquals(summary.duration, 3000);
+  assertEquals(summary.language, "fr-FR");
+  assertEquals(summary.accessibleMode, true);
+  assertEquals(summary.componentsUsed, [3]);
+  assertEquals(summary.devicesUsed, [DeviceType.BOARDING_PASS_PRINTER]);
+  assertEquals(summary.errors.map((e) => [e.componentID, e.messageCode]), [[3, MessageCodes.MEDIAJAMMED]]);
+  assertEquals(session.ended, true);
+});
@@ -0,0 +1,116 @@
+import {
+  ApplicationActivation,
+  ApplicationActivationExecutionModeEnum,
+  ApplicationData,
+  ApplicationStateCodes,
+  MessageCodes,
+  PlatformData,
+  PlatformDirectives,
+} from "cuss2-typescript-models";
+import type { Component } from "./models/Component.ts";
+import { DeviceType } from "./models/deviceType.ts";
+
+export interface SessionError {
+  time: number;
+  componentID?: number;
+  directive?: PlatformDirectives;
+  messageCode?: MessageCodes;
+  error?: unknown;
+}
+
+export interface SessionSummary {
+  sessionID: string;
+  startedAt: number;
+  endedAt: number;
+  // Milliseconds
+  duration: number;
+  // The state the application went to when the session ended
+  endState: ApplicationStateCodes;
+  language: string;
+  accessibleMode: boolean;
+  executionMode?: ApplicationActivationExecutionModeEnum;
+  componentsUsed: number[];
+  devicesUsed: DeviceType[];
+  errors: SessionError[];
+}
+
+/**
+ * One passenger's use of the application, from activation to deactivation
+ */
+export class PassengerSession {
+  sessionID: string = crypto.randomUUID();
+  startedAt: number;
+  endedAt?: number;
+  language: string;
+  accessibleMode: boolean;
+  executionMode?: ApplicationActivationExecutionModeEnum;
+  activation?: ApplicationActivation;
+  // IDs of the components the application enabled or sent requests to
+  componentsUsed = new Set<number>();
+  errors: SessionError[] = [];
+  now: () => number;
+
+  constructor(
+    activation: ApplicationActivation | undefined,
+    language: string,
+    accessibleMode: boolean,
+    now: () => number = Date.now,
+  ) {
+    this.activation = activation;
+    this.language = language;
+    this.accessibleMode = accessibleMode;
+    this.executionMode = activation?.executionMode;
+    this.now = now;
+    this.startedAt = now();
+  }
+
+  get duration(): number {
+    return (this.endedAt ?? this.now()) - this.startedAt;
+  }
+
+  get ended(): boolean {
+    return this.endedAt !== undefined;
+  }
+
+  /**
+   * Notes the component a request to the platform is addressed to. Status queries don't count as use.
+   */
+  recordRequest(data: ApplicationData): void {
+    const { componentID, directive } = data.meta ?? {};
+    if (this.ended || componentID == null || directive === PlatformDirectives.PeripheralsQuery) return;
+    this.componentsUsed.add(Number(componentID));
+  }
+
+  /**
+   * Notes failed responses for components the session used
+   */
+  recordResponse(data: PlatformData): void {
+    const { componentID, messageCode, platformDirective } = data.meta ?? {};
+    if (this.ended || messageCode === MessageCodes.OK || !platformDirective) return;
+    if (componentID == null || !this.componentsUsed.has(Number(componentID))) return;
+    this.errors.push({ time: this.now(), componentID: Number(componentID), directive: platformDirective, messageCode });
+  }
+
+  recordError(error: unknown, componentID?: number): void {
+    this.errors.push({ time: this.now(), componentID, error });
+  }
+
+  end(endState: ApplicationStateCodes, components: Record<string, Component> = {}): SessionSummary {
+    this.endedAt ??= this.now();
+    const componentsUsed = [...this.componentsUsed];
+    return {
+      sessionID: this.sessionID,
+      startedAt: this.startedAt,
+      endedAt: this.endedAt,
+      duration: this.duration,
+      endState,
+      language: this.language,
+      accessibleMode: this.accessibleMode,
+      executionMode: this.executionMode,
+      componentsUsed,
+      devicesUsed: [...new Set(componentsUsed.map((id) => components[id]?.deviceType))]
+        .filter((type): type is DeviceType => !!type),
+      errors: this.errors,
+    };
+  }
+}
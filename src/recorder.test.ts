@@ -0,0 +1,132 @@
+import { assertEquals } from "jsr:@std/assert";
+import { ApplicationStateCodes as AppState, MessageCodes, PlatformDirectives } from "cuss2-typescript-models";
+import { Connection, ConnectionOptions } from "./connection.ts";
+import { RecordedEntry, SessionRecorder, SessionReplayer } from "./recorder.ts";
+import { staticToken } from "./tokenProvider.ts";
+import { LoopbackTransport, loopbackTransport, TransportFactory } from "./transport.ts";
+
+const connect = (transport: TransportFactory, options: ConnectionOptions = {}) =>
+  Connection.connect("https://example.com/api", "device-id", "client-id", "client-secret", undefined, undefined, {
+    tokenProvider: staticToken("secret-token"),
+    transport,
+    ...options,
+  });
+
+const request = (requestID: string, directive: PlatformDirectives) => ({ meta: { requestID, directive } });
+
+Deno.test("SessionRecorder should record both directions and redact the token", async () => {
+  const lines: string[] = [];
+  const connection = await connect(loopbackTransport((platform) => {
+    platform.onmessage = (event) => {
+      const { meta } = JSON.parse(event.data);
+      platform.send(JSON.stringify({ meta: { requestID: meta.requestID, messageCode: MessageCodes.OK } }));
+    };
+  }));
+  const recorder = new SessionRecorder((line) => lines.push(line)).attach(connection);
+
+  // @ts-ignore - Testing with simplified data structure
+  await connection.sendAndGetResponse(request("recorded-1", PlatformDirectives.PlatformEnvironment));
+  connection.close();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  recorder.detach();
+
+  assertEquals(recorder.entries.map((e) => `${e.direction}:${e.kind}`), [
+    "outbound:request",
+    "inbound:message",
+    "inbound:close",
+  ]);
+  const sent = recorder.entries[0].data as { meta: { oauthToken: string } };
+  assertEquals(sent.meta.oauthToken, "[REDACTED]");
+  assertEquals(lines.length, 3);
+  assertEquals(SessionReplayer.parse(recorder.toJSONL()), recorder.entries);
+});
+
+Deno.test("SessionRecorder should record platform messages as they arrived", async () => {
+  let platformEnd: LoopbackTransport | undefined;
+  const connection = await connect(loopbackTransport((platform) => platformEnd = platform), { validation: "strict" });
+  const recorder = new SessionRecorder().attach(connection);
+  connection.use({
+    inbound: (data) => {
+      (data.meta as Record<string, unknown>).annotated = true;
+    },
+  });
+  const handled: unknown[] = [];
+  connection.on("message", (data) => handled.push((data.meta as Record<string, unknown>).annotated));
+
+  const currentApplicationState = { applicationStateCode: AppState.AVAILABLE };
+  const dropped = { meta: { messageCode: "NOT_A_CODE", currentApplicationState } };
+  const intercepted = { meta: { messageCode: MessageCodes.OK, currentApplicationState } };
+  platformEnd!.send(JSON.stringify(dropped));
+  platformEnd!.send(JSON.stringify(intercepted));
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  recorder.detach();
+
+  assertEquals(handled, [true]);
+  assertEquals(recorder.entries.map((e) => e.data), [dropped, intercepted]);
+  connection.close();
+});
+
+Deno.test("SessionReplayer should answer new requestIDs and stop at breakpoints", async () => {
+  const { PlatformEnvironment, PlatformComponents } = PlatformDirectives;
+  const response = (requestID: string) => ({ meta: { requestID, messageCode: MessageCodes.OK } });
+  const recording: RecordedEntry[] = [
+    { time: 0, direction: "inbound", kind: "open" },
+    { time: 10, direction: "outbound", kind: "request", data: request("kiosk-1", PlatformEnvironment) },
+    { time: 20, direction: "inbound", kind: "message", data: response("kiosk-1") },
+    { time: 30, direction: "outbound", kind: "request", data: request("kiosk-2", PlatformComponents) },
+    { time: 40, direction: "inbound", kind: "message", data: response("kiosk-2") },
+  ];
+  const replayer = new SessionReplayer(recording, { speed: Infinity, breakpoints: ["kiosk-2"] });
+  const hitBreakpoint = new Promise<RecordedEntry>((resolve) => replayer.once("breakpoint", resolve));
+  let breakpoints = 0;
+  replayer.on("breakpoint", () => breakpoints++);
+  const ended = new Promise((resolve) => replayer.once("end", resolve));
+  const connection = await connect(replayer.transport());
+
+  // @ts-ignore - Testing with simplified data structure
+  const first = await connection.sendAndGetResponse(request("replay-1", PlatformEnvironment));
+  assertEquals(first.meta.requestID, "replay-1");
+
+  // @ts-ignore - Testing with simplified data structure
+  const second = connection.sendAndGetResponse(request("replay-2", PlatformComponents));
+  assertEquals((await hitBreakpoint).direction, "outbound");
+  assertEquals(replayer.paused, true);
+
+  replayer.resume();
+  assertEquals((await second).meta.requestID, "replay-2");
+  await ended;
+  // The response to the request at the breakpoint doesn't pause the replay again
+  assertEquals(breakpoints, 1);
+  connection.close();
+});
+
+Deno.test("SessionReplayer should keep recorded gaps when requests arrive during them", async () => {
+  const { PlatformEnvironment } = PlatformDirectives;
+  const { OK, DATAPRESENT, MEDIAPRESENT } = MessageCodes;
+  const message = (meta: Record<string, unknown>) => ({ meta });
+  const recording: RecordedEntry[] = [
+    { time: 0, direction: "inbound", kind: "open" },
+    { time: 10, direction: "inbound", kind: "message", data: message({ messageCode: DATAPRESENT }) },
+    { time: 60, direction: "inbound", kind: "message", data: message({ messageCode: MEDIAPRESENT }) },
+    { time: 70, direction: "outbound", kind: "request", data: request("kiosk-1", PlatformEnvironment) },
+    { time: 80, direction: "inbound", kind: "message", data: message({ requestID: "kiosk-1", messageCode: OK }) },
+  ];
+  const replayer = new SessionReplayer(recording);
+  const ended = new Promise((resolve) => replayer.once("end", resolve));
+  const arrivals: number[] = [];
+  let response: Promise<unknown> | undefined;
+
+  const connection = await connect(replayer.transport());
+  connection.on("message", () => {
+    arrivals.push(Date.now());
+    // Requesting straight away must not hurry the next recorded message
+    // @ts-ignore - Testing with simplified data structure
+    response ??= connection.sendAndGetResponse(request("replay-1", PlatformEnvironment));
+  });
+
+  await ended;
+  await response;
+  assertEquals(arrivals.length, 3);
+  assertEquals(arrivals[1] - arrivals[0] >= 45, true);
+  connection.close();
+});
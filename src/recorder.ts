@@ -0,0 +1,302 @@
+import { EventEmitter } from "events";
+import type { ApplicationData, PlatformData } from "cuss2-typescript-models";
+import { Connection } from "./connection.ts";
+import { log } from "./helper.ts";
+import { LoopbackTransport, loopbackTransport, TransportFactory } from "./transport.ts";
+
+export type RecordedKind = "request" | "message" | "ping" | "ack" | "open" | "close";
+
+/**
+ * One line of a session recording
+ */
+export interface RecordedEntry {
+  /**
+   * Epoch milliseconds when the entry was observed
+   */
+  time: number;
+  direction: "outbound" | "inbound";
+  kind: RecordedKind;
+  data?: unknown;
+}
+
+const REDACTED = "[REDACTED]";
+
+const requestIDOf = (data: unknown): string | undefined => {
+  const meta = (data as { meta?: { requestID?: string } })?.meta;
+  return meta?.requestID ?? (data as { requestID?: string })?.requestID;
+};
+
+const directiveOf = (data: unknown): string | undefined => {
+  return (data as { meta?: { directive?: string } })?.meta?.directive;
+};
+
+/**
+ * Appends each line to a file, e.g. `fileSink(\`cuss2-${Date.now()}.jsonl\`)`. Writes are asynchronous, and lines
+ * recorded while one is in progress are appended together by the next. `flush()` resolves once all are written.
+ */
+export const fileSink = (path: string) => {
+  let pending: string[] = [];
+  let writing: Promise<void> | undefined;
+
+  const write = async () => {
+    try {
+      while (pending.length) {
+        const lines = pending.join("\n") + "\n";
+        pending = [];
+        await Deno.writeTextFile(path, lines, { append: true });
+      }
+    }
+    catch (error) {
+      log("error", `Failed to write the recording to ${path}`, error);
+    }
+    writing = undefined;
+  };
+  const sink = (line: string) => {
+    pending.push(line);
+    writing ??= write();
+  };
+  sink.flush = (): Promise<void> => writing ?? Promise.resolve();
+  return sink;
+};
+
+/**
+ * Records everything a Connection sends and receives, as it went over the wire: platform messages are recorded
+ * before inbound interceptors and validation, so the recording includes those strict validation dropped.
+ * Outbound `oauthToken`s are redacted.
+ */
+export class SessionRecorder {
+  entries: RecordedEntry[] = [];
+  _sink?: (line: string) => void;
+  _now: () => number;
+  _detach?: () => void;
+
+  /**
+   * @param sink receives every entry as a JSON line as soon as it is recorded
+   */
+  constructor(sink?: (line: string) => void, now: () => number = Date.now) {
+    this._sink = sink;
+    this._now = now;
+  }
+
+  attach(connection: Connection): this {
+    this.detach();
+    const listeners = {
+      outbound: (data: ApplicationData) => this.record("outbound", "request", data),
+      received: (data: PlatformData) => this.record("inbound", "message", data),
+      ping: (data: unknown) => this.record("inbound", "ping", data),
+      ack: (data: unknown) => this.record("inbound", "ack", data),
+      open: () => this.record("inbound", "open"),
+      close: (e: CloseEvent) => this.record("inbound", "close", { code: e.code, reason: e.reason }),
+    };
+    const emitter = connection as EventEmitter;
+    for (const [event, listener] of Object.entries(listeners)) {
+      emitter.on(event, listener as (...args: unknown[]) => void);
+    }
+    this._detach = () => {
+      for (const [event, listener] of Object.entries(listeners)) {
+        emitter.off(event, listener as (...args: unknown[]) => void);
+      }
+    };
+    return this;
+  }
+
+  detach() {
+    this._detach?.();
+    this._detach = undefined;
+  }
+
+  record(direction: RecordedEntry["direction"], kind: RecordedKind, data?: unknown) {
+    const entry: RecordedEntry = { time: this._now(), direction, kind };
+    if (data !== undefined) {
+      entry.data = direction === "outbound" ? SessionRecorder.redact(data) : data;
+    }
+    this.entries.push(entry);
+    this._sink?.(JSON.stringify(entry));
+  }
+
+  toJSONL(): string {
+    return this.entries.map((entry) => JSON.stringify(entry)).join("\n");
+  }
+
+  /**
+   * Copies a message without its `oauthToken`
+   */
+  static redact(data: unknown): unknown {
+    const copy = structuredClone(data) as { meta?: { oauthToken?: string } };
+    if (copy?.meta?.oauthToken) {
+      copy.meta.oauthToken = REDACTED;
+    }
+    return copy;
+  }
+}
+
+export interface ReplayOptions {
+  /**
+   * Playback speed relative to the recording. `Infinity` replays without pauses.
+   */
+  speed?: number;
+  /**
+   * Recorded requestIDs whose requests to pause at; call `resume()` to continue
+   */
+  breakpoints?: string[];
+}
+
+/**
+ * Plays a recording back to a Connection through an in-memory transport. Responses are sent once
+ * the application makes the matching request, with requestIDs rewritten to the ones it generated.
+ *
+ * Emits `breakpoint` (entry), `mismatch` (expected directive, received request) and `end`.
+ */
+export class SessionReplayer extends EventEmitter {
+  entries: RecordedEntry[];
+  speed: number;
+  breakpoints: Set<string>;
+  paused = false;
+  _position = 0;
+  _requestIDs = new Map<string, string>();
+  _received: ApplicationData[] = [];
+  _wake?: () => void;
+  _stopDelay?: () => void;
+  _platformEnd?: LoopbackTransport;
+
+  constructor(entries: RecordedEntry[], options: ReplayOptions = {}) {
+    super();
+    this.entries = entries;
+    this.speed = options.speed ?? 1;
+    this.breakpoints = new Set(options.breakpoints);
+  }
+
+  static parse(jsonl: string): RecordedEntry[] {
+    return jsonl.split("\n").filter((line) => line.trim()).map((line) => JSON.parse(line));
+  }
+
+  /**
+   * A transport factory to pass as the `transport` connection option
+   */
+  transport(): TransportFactory {
+    return loopbackTransport((platformEnd) => {
+      this._platformEnd = platformEnd;
+      this._received = [];
+      platformEnd.onmessage = (event) => {
+        const data = JSON.parse(event.data);
+        if (data?.meta) {
+          this._received.push(data);
+          this._wakeUp();
+        }
+      };
+      platformEnd.onopen = () => this._play(platformEnd);
+      platformEnd.onclose = () => {
+        if (this._platformEnd !== platformEnd) return;
+        this._platformEnd = undefined;
+        this._wakeUp();
+        this._stopDelay?.();
+      };
+    });
+  }
+
+  get done(): boolean {
+    return this._position >= this.entries.length;
+  }
+
+  pause() {
+    this.paused = true;
+  }
+
+  resume() {
+    this.paused = false;
+    this._wakeUp();
+  }
+
+  _wakeUp() {
+    const wake = this._wake;
+    this._wake = undefined;
+    wake?.();
+  }
+
+  /**
+   * Waits for a request from the application, a `resume()` or the connection closing
+   */
+  _sleep(): Promise<void> {
+    return new Promise((resolve) => {
+      this._wake = resolve;
+    });
+  }
+
+  /**
+   * Waits out the recorded gap between entries. Only the connection closing cuts it short.
+   */
+  _delay(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const finish = () => {
+        clearTimeout(timer);
+        this._stopDelay = undefined;
+        resolve();
+      };
+      const timer = setTimeout(finish, ms);
+      this._stopDelay = finish;
+    });
+  }
+
+  async _play(platformEnd: LoopbackTransport) {
+    // The opening entry of the recording describes this connection
+    if (this.entries[this._position]?.kind === "open") this._position++;
+
+    while (!this.done && this._platformEnd === platformEnd) {
+      const entry = this.entries[this._position];
+      const previous = this.entries[this._position - 1];
+
+      // Only the request breaks; its response carries the same requestID
+      const recordedID = entry.direction === "outbound" ? requestIDOf(entry.data) : undefined;
+      if (recordedID && this.breakpoints.has(recordedID) && !this.paused) {
+        this.paused = true;
+        this.emit("breakpoint", entry);
+      }
+      while (this.paused) await this._sleep();
+
+      if (entry.direction === "outbound") {
+        // Wait for the application to make the request the kiosk made
+        while (!this._received.length && this._platformEnd === platformEnd) await this._sleep();
+        if (this._platformEnd !== platformEnd) return;
+        this._match(entry, this._received.shift() as ApplicationData);
+        this._position++;
+        continue;
+      }
+
+      const wait = previous && this.speed !== Infinity ? (entry.time - previous.time) / this.speed : 0;
+      if (wait > 0) await this._delay(wait);
+      if (this._platformEnd !== platformEnd) return;
+      this._position++;
+
+      if (entry.kind === "open") continue;
+      if (entry.kind === "close") {
+        const { code = 1006, reason = "" } = (entry.data ?? {}) as { code?: number; reason?: string };
+        platformEnd.close(code, reason);
+        return;
+      }
+      platformEnd.send(JSON.stringify(this._remap(entry.data)));
+    }
+    if (this.done) this.emit("end");
+  }
+
+  _match(entry: RecordedEntry, request: ApplicationData) {
+    const expected = directiveOf(entry.data);
+    if (expected !== request.meta.directive) {
+      this.emit("mismatch", expected, request);
+    }
+    const recordedID = requestIDOf(entry.data);
+    if (recordedID) {
+      this._requestIDs.set(recordedID, request.meta.requestID as string);
+    }
+  }
+
+  _remap(data: unknown): unknown {
+    const recordedID = requestIDOf(data);
+    const requestID = recordedID && this._requestIDs.get(recordedID);
+    if (!requestID) return data;
+
+    const copy = structuredClone(data) as { requestID?: string; meta?: { requestID?: string } };
+    if (copy.meta?.requestID) copy.meta.requestID = requestID;
+    if (copy.requestID) copy.requestID = requestID;
+    return copy;
+  }
+}
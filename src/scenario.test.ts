@@ -0,0 +1,114 @@
+import { assertEquals } from "jsr:@std/assert";
+import {
+  ApplicationStateCodes as AppState,
+  ComponentState,
+  ComponentTypes,
+  CUSSDataTypes,
+  DeviceTypes,
+  MediaTypes,
+  MessageCodes,
+  PlatformDirectives,
+} from "cuss2-typescript-models";
+import { Cuss2 } from "./cuss2.ts";
+import { MockPlatform } from "./mockPlatform.ts";
+import { ManualClock, Scenario } from "./scenario.ts";
+import { Component } from "./models/Component.ts";
+
+const READER = 1;
+const PRINTER = 10;
+const FEEDER = 11;
+const DISPENSER = 12;
+const BCBP = "M1DOE/JOHN            EABC123 YULFRAAC 0834 326J001A0025 100";
+
+Deno.test("Scenario should drive scripted device behaviour on a manual clock", async () => {
+  const platform = new MockPlatform({
+    pingInterval: 0,
+    initialState: AppState.AVAILABLE,
+    components: [{
+      componentID: READER,
+      componentType: ComponentTypes.DATAINPUT,
+      componentCharacteristics: [{ dsTypesList: [CUSSDataTypes.BARCODE] }],
+    }] as MockPlatform["profile"]["components"],
+  });
+  const clock = new ManualClock();
+  const scenario = new Scenario(platform, clock);
+  scenario.when(PlatformDirectives.PeripheralsUserpresentEnable, READER).wait(100).data(READER, [BCBP]);
+  scenario.script()
+    .activate()
+    .wait(5000)
+    .status(READER, MessageCodes.HARDWAREERROR, ComponentState.UNAVAILABLE);
+
+  const cuss2 = await Cuss2.connect("https://kiosk.example", undefined, "client", "secret", undefined, {
+    transport: platform.transport(),
+    tokenProvider: platform.tokenProvider(),
+  });
+  const events: string[] = [];
+  cuss2.on("componentStateChange", (component: Component) => events.push(`${component.id}:${component.status}`));
+  const reader = cuss2.barcodeReader!;
+  reader.on("data", (data) => events.push(`data:${data[0]}`));
+
+  scenario.start();
+  await clock.tick();
+  assertEquals(cuss2.state, AppState.ACTIVE);
+
+  await reader.enable();
+  await clock.tick(99);
+  assertEquals(events, []);
+  await clock.tick(1);
+  assertEquals(events, [`${READER}:${MessageCodes.DATAPRESENT}`, `data:${BCBP}`]);
+
+  await clock.tick(5000);
+  assertEquals(events.slice(2), [`${READER}:${MessageCodes.HARDWAREERROR}`]);
+  assertEquals(reader.ready, false);
+  assertEquals(scenario.pending, 0);
+
+  scenario.stop();
+  await cuss2.dispose();
+});
+
+Deno.test("Scenario should drive a printer's media present events on a manual clock", async () => {
+  const platform = new MockPlatform({
+    pingInterval: 0,
+    initialState: AppState.AVAILABLE,
+    components: [
+      {
+        componentID: PRINTER,
+        componentType: ComponentTypes.DATAOUTPUT,
+        componentCharacteristics: [{ deviceTypesList: [DeviceTypes.PRINT], mediaTypesList: [MediaTypes.BOARDINGPASS] }],
+        linkedComponentIDs: [FEEDER, DISPENSER],
+      },
+      { componentID: FEEDER, componentType: ComponentTypes.FEEDER, componentCharacteristics: [{}] },
+      { componentID: DISPENSER, componentType: ComponentTypes.DISPENSER, componentCharacteristics: [{}] },
+    ] as MockPlatform["profile"]["components"],
+  });
+  const clock = new ManualClock();
+  const scenario = new Scenario(platform, clock);
+  // A boarding pass comes out, and the passenger takes it two seconds later
+  scenario.script()
+    .wait(300)
+    .status(DISPENSER, MessageCodes.MEDIAPRESENT)
+    .wait(2000)
+    .status(DISPENSER, MessageCodes.OK);
+
+  const cuss2 = await Cuss2.connect("https://kiosk.example", undefined, "client", "secret", undefined, {
+    transport: platform.transport(),
+    tokenProvider: platform.tokenProvider(),
+  });
+  const printer = cuss2.boardingPassPrinter!;
+  const mediaPresent: boolean[] = [];
+  printer.dispenser.on("mediaPresent", (present) => mediaPresent.push(present));
+
+  scenario.start();
+  await clock.tick(299);
+  assertEquals(mediaPresent, []);
+  await clock.tick(1);
+  assertEquals(mediaPresent, [true]);
+  assertEquals(printer.mediaPresent, true);
+
+  await clock.tick(2000);
+  assertEquals(mediaPresent, [true, false]);
+  assertEquals(printer.mediaPresent, false);
+
+  scenario.stop();
+  await cuss2.dispose();
+});
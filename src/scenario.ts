@@ -0,0 +1,213 @@
+import {
+  ApplicationActivation,
+  ApplicationData,
+  ApplicationStateChangeReasonCodes as ChangeReason,
+  ApplicationStateCodes as AppState,
+  ComponentState,
+  DataRecord,
+  MessageCodes,
+  PlatformData,
+  PlatformDirectives,
+} from "cuss2-typescript-models";
+import { MockPlatform } from "./mockPlatform.ts";
+
+/**
+ * Timer functions a Scenario waits with, so tests can control time
+ */
+export interface ScenarioClock {
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (id: unknown) => void;
+}
+
+export const realClock: ScenarioClock = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (id) => clearTimeout(id as ReturnType<typeof setTimeout>),
+};
+
+// Lets messages in flight reach the application, and the application's reactions reach the platform
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * A clock that only moves when told to
+ */
+export class ManualClock implements ScenarioClock {
+  now = 0;
+  _nextID = 1;
+  _timers = new Map<number, { at: number; callback: () => void }>();
+
+  setTimeout = (callback: () => void, ms: number): number => {
+    const id = this._nextID++;
+    this._timers.set(id, { at: this.now + Math.max(0, ms), callback });
+    return id;
+  };
+
+  clearTimeout = (id: unknown): void => {
+    this._timers.delete(id as number);
+  };
+
+  /**
+   * Moves time forward, firing due timers in order and letting the application handle
+   * the messages they send before firing the next one
+   */
+  async tick(ms = 0): Promise<void> {
+    const until = this.now + ms;
+    await settle();
+    while (true) {
+      // Timers due at the same time fire in the order they were set
+      let due: [number, { at: number; callback: () => void }] | undefined;
+      for (const entry of this._timers) {
+        if (entry[1].at <= until && (!due || entry[1].at < due[1].at)) due = entry;
+      }
+      if (!due) break;
+      const [id, timer] = due;
+      this._timers.delete(id);
+      this.now = timer.at;
+      timer.callback();
+      await settle();
+    }
+    this.now = until;
+  }
+}
+
+type ScriptStep = { wait: number } | { run: (platform: MockPlatform) => void };
+
+/**
+ * A sequence of device behaviour: waits and the unsolicited messages sent between them
+ */
+export class Script {
+  steps: ScriptStep[] = [];
+
+  wait(ms: number): this {
+    this.steps.push({ wait: ms });
+    return this;
+  }
+
+  do(run: (platform: MockPlatform) => void): this {
+    this.steps.push({ run });
+    return this;
+  }
+
+  /**
+   * The component reads data, e.g. a BCBP string or a weight. Dropped while the component isn't enabled.
+   */
+  data(componentID: number, records: (string | DataRecord)[]): this {
+    return this.do((platform) => platform.present(componentID, records));
+  }
+
+  /**
+   * The component reports a status, e.g. MEDIAPRESENT, optionally changing its state
+   */
+  status(componentID: number, messageCode: MessageCodes, componentState?: ComponentState): this {
+    return this.do((platform) => {
+      const state = componentState ?? platform.componentStates.get(componentID) ?? ComponentState.READY;
+      platform.setComponentState(componentID, state, messageCode);
+    });
+  }
+
+  componentState(componentID: number, componentState: ComponentState): this {
+    return this.do((platform) => platform.setComponentState(componentID, componentState));
+  }
+
+  state(state: AppState, reasonCode = ChangeReason.NOTAPPLICABLE, reason = ""): this {
+    return this.do((platform) => platform.setState(state, reasonCode, reason));
+  }
+
+  activate(activation?: ApplicationActivation): this {
+    return this.do((platform) => platform.activate(activation));
+  }
+
+  deactivate(state = AppState.AVAILABLE): this {
+    return this.do((platform) => platform.deactivate(state));
+  }
+
+  send(message: PlatformData): this {
+    return this.do((platform) => platform.broadcast(message));
+  }
+}
+
+interface Trigger {
+  directive: PlatformDirectives;
+  componentID?: number;
+  script: Script;
+}
+
+/**
+ * Scripts device behaviour over time on a MockPlatform. Scripts made with `script()` run from `start()`,
+ * those made with `when()` every time the platform has successfully answered a matching request:
+ *
+ * ```typescript
+ * scenario.when(PlatformDirectives.PeripheralsUserpresentEnable, readerID).wait(100).data(readerID, [bcbp]);
+ * scenario.script().wait(5000).status(printerID, MessageCodes.MEDIAPRESENT);
+ * ```
+ */
+export class Scenario {
+  platform: MockPlatform;
+  clock: ScenarioClock;
+  _scripts: Script[] = [];
+  _triggers: Trigger[] = [];
+  _timers = new Set<unknown>();
+  _detach?: () => void;
+
+  constructor(platform: MockPlatform, clock: ScenarioClock = realClock) {
+    this.platform = platform;
+    this.clock = clock;
+  }
+
+  script(): Script {
+    const script = new Script();
+    this._scripts.push(script);
+    return script;
+  }
+
+  when(directive: PlatformDirectives, componentID?: number): Script {
+    const script = new Script();
+    this._triggers.push({ directive, componentID, script });
+    return script;
+  }
+
+  start(): this {
+    this.stop();
+    const onResponse = (response: PlatformData, request: ApplicationData) => {
+      if (response.meta.messageCode !== MessageCodes.OK) return;
+      const componentID = request.meta.componentID == null ? undefined : Number(request.meta.componentID);
+      this._triggers
+        .filter((t) => t.directive === request.meta.directive)
+        .filter((t) => t.componentID === undefined || t.componentID === componentID)
+        .forEach((t) => this._run(t.script.steps));
+    };
+    this.platform.on("response", onResponse);
+    this._detach = () => this.platform.off("response", onResponse);
+
+    this._scripts.forEach((script) => this._run(script.steps));
+    return this;
+  }
+
+  /**
+   * Cancels pending steps and stops reacting to requests
+   */
+  stop() {
+    this._timers.forEach((timer) => this.clock.clearTimeout(timer));
+    this._timers.clear();
+    this._detach?.();
+    this._detach = undefined;
+  }
+
+  get pending(): number {
+    return this._timers.size;
+  }
+
+  _run(steps: ScriptStep[], from = 0) {
+    for (let i = from; i < steps.length; i++) {
+      const step = steps[i];
+      if ("wait" in step) {
+        const timer = this.clock.setTimeout(() => {
+          this._timers.delete(timer);
+          this._run(steps, i + 1);
+        }, step.wait);
+        this._timers.add(timer);
+        return;
+      }
+      step.run(this.platform);
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { ApplicationStateCodes as AppState } from "cuss2-typescript-models";
+import { IllegalStateTransitionError } from "./models/Errors.ts";
+import { StateChange } from "./models/stateChange.ts";
+import { allowedFrom, assertTransition, canTransition, StateHistory } from "./stateMachine.ts";
+
+Deno.test("assertTransition should reject requests the transition table doesn't allow", () => {
+  assertEquals(canTransition(AppState.AVAILABLE, AppState.ACTIVE), true);
+  assertEquals(canTransition(AppState.UNAVAILABLE, AppState.ACTIVE), false);
+  assertEquals(allowedFrom(AppState.ACTIVE), [AppState.AVAILABLE]);
+  // Requests for the current state are bound to fail
+  assertEquals(canTransition(AppState.ACTIVE, AppState.ACTIVE), false);
+  assertEquals(canTransition(AppState.STOPPED, AppState.STOPPED), false);
+
+  const error = assertThrows(
+    () => assertTransition(AppState.UNAVAILABLE, AppState.ACTIVE),
+    IllegalStateTransitionError,
+  );
+  assertEquals(error.state, AppState.UNAVAILABLE);
+  assertEquals(error.requested, AppState.ACTIVE);
+  assertEquals(error.allowed, [AppState.AVAILABLE]);
+});
+
+Deno.test("StateHistory should keep the latest entries and filter them", () => {
+  const history = new StateHistory(3);
+  history.add(new StateChange(AppState.STOPPED, AppState.INITIALIZE, { timestamp: 1 }));
+  history.add(new StateChange(AppState.INITIALIZE, AppState.UNAVAILABLE, { timestamp: 2, initiator: "application" }));
+  history.add(new StateChange(AppState.UNAVAILABLE, AppState.AVAILABLE, { timestamp: 3, initiator: "application" }));
+  history.add(new StateChange(AppState.AVAILABLE, AppState.ACTIVE, { timestamp: 4 }));
+
+  assertEquals(history.entries.map((change) => change.current), [
+    AppState.UNAVAILABLE,
+    AppState.AVAILABLE,
+    AppState.ACTIVE,
+  ]);
+  assertEquals(history.last?.current, AppState.ACTIVE);
+  assertEquals(history.query({ initiator: "platform" }).map((change) => change.timestamp), [4]);
+  assertEquals(history.query({ since: 3 }).length, 2);
+  assertEquals(history.query({ state: AppState.AVAILABLE })[0].previous, AppState.UNAVAILABLE);
+  assertEquals(history.query({ initiator: "application", limit: 1 })[0].timestamp, 3);
+});
@@ -0,0 +1,89 @@
+import { ApplicationStateCodes as AppState } from "cuss2-typescript-models";
+import { IllegalStateTransitionError } from "./models/Errors.ts";
+import { StateChange, StateChangeInitiator } from "./models/stateChange.ts";
+
+/**
+ * The states an application may request, by the state it is in. INITIALIZE, SUSPENDED and
+ * DISABLED are only ever entered at the platform's initiative. The platform rejects a request for
+ * the state the application is already in, so none is listed.
+ */
+export const STATE_TRANSITIONS: Readonly<Record<string, readonly AppState[]>> = {
+  [AppState.STOPPED]: [],
+  [AppState.INITIALIZE]: [AppState.UNAVAILABLE, AppState.STOPPED],
+  [AppState.UNAVAILABLE]: [AppState.AVAILABLE, AppState.RELOAD, AppState.STOPPED],
+  [AppState.AVAILABLE]: [AppState.UNAVAILABLE, AppState.ACTIVE, AppState.RELOAD, AppState.STOPPED],
+  [AppState.ACTIVE]: [AppState.AVAILABLE, AppState.UNAVAILABLE, AppState.RELOAD, AppState.STOPPED],
+  [AppState.RELOAD]: [AppState.STOPPED],
+  [AppState.SUSPENDED]: [AppState.STOPPED],
+  [AppState.DISABLED]: [AppState.STOPPED],
+};
+
+export const canTransition = (from: AppState, to: AppState): boolean => {
+  return STATE_TRANSITIONS[from]?.includes(to) ?? false;
+};
+
+/**
+ * The states from which `to` may be requested
+ */
+export const allowedFrom = (to: AppState): AppState[] => {
+  return Object.keys(STATE_TRANSITIONS).filter((from) => canTransition(from as AppState, to)) as AppState[];
+};
+
+export const assertTransition = (from: AppState, to: AppState): void => {
+  if (!canTransition(from, to)) {
+    throw new IllegalStateTransitionError(from, to, allowedFrom(to));
+  }
+};
+
+export interface StateHistoryQuery {
+  /**
+   * Only changes at or after this time (milliseconds since the epoch)
+   */
+  since?: number;
+  initiator?: StateChangeInitiator;
+  /**
+   * Only changes into this state
+   */
+  state?: AppState;
+  /**
+   * Only the most recent matching changes
+   */
+  limit?: number;
+}
+
+/**
+ * Bounded log of application state changes, oldest first
+ */
+export class StateHistory {
+  maxEntries: number;
+  entries: StateChange[] = [];
+
+  constructor(maxEntries = 100) {
+    this.maxEntries = maxEntries;
+  }
+
+  get last(): StateChange | undefined {
+    return this.entries[this.entries.length - 1];
+  }
+
+  add(change: StateChange): void {
+    this.entries.push(change);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  query(query: StateHistoryQuery = {}): StateChange[] {
+    const { since, initiator, state, limit } = query;
+    const matches = this.entries.filter((change) =>
+      (since === undefined || change.timestamp >= since) &&
+      (initiator === undefined || change.initiator === initiator) &&
+      (state === undefined || change.current === state)
+    );
+    return limit === undefined ? matches : matches.slice(Math.max(0, matches.length - limit));
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
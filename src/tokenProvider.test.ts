@@ -0,0 +1,105 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import { global } from "./global.ts";
+import { AuthenticationError } from "./models/Errors.ts";
+import { CachedToken, cachedToken, clientCredentials, jwtBearer, TokenCache, tokenCallback } from "./tokenProvider.ts";
+
+// Captures token requests and answers them with the given status
+const withFetch = (status: number, test: (requests: RequestInit[]) => Promise<void>) => async () => {
+  const originalFetch = global.fetch;
+  const requests: RequestInit[] = [];
+  global.fetch = (_url: string | URL | Request, init?: RequestInit) => {
+    requests.push(init ?? {});
+    return Promise.resolve(
+      {
+        status,
+        json: () => Promise.resolve({ access_token: "issued-token", expires_in: 3600, token_type: "Bearer" }),
+      } as unknown as Response,
+    );
+  };
+  try {
+    await test(requests);
+  }
+  finally {
+    global.fetch = originalFetch;
+  }
+};
+
+Deno.test(
+  "clientCredentials should send the secret as a Basic Authorization header when asked",
+  withFetch(200, async (requests) => {
+    const provider = clientCredentials({
+      url: "https://example.com/oauth/token",
+      client_id: "client",
+      client_secret: "secret",
+      scope: "cuss2",
+      authMethod: "client_secret_basic",
+    });
+
+    const token = await provider.getToken();
+    assertEquals(token.access_token, "issued-token");
+
+    const headers = requests[0].headers as Record<string, string>;
+    assertEquals(headers["Authorization"], `Basic ${btoa("client:secret")}`);
+    assertEquals(requests[0].body, "grant_type=client_credentials&scope=cuss2");
+  }),
+);
+
+Deno.test(
+  "jwtBearer should send a fresh assertion and reject failed grants",
+  withFetch(400, async (requests) => {
+    const provider = jwtBearer({ url: "https://example.com/oauth/token", assertion: () => "signed.jwt.value" });
+
+    await assertRejects(() => provider.getToken(), AuthenticationError, "status 400");
+    const body = new URLSearchParams(requests[0].body as string);
+    assertEquals(body.get("grant_type"), "urn:ietf:params:oauth:grant-type:jwt-bearer");
+    assertEquals(body.get("assertion"), "signed.jwt.value");
+  }),
+);
+
+Deno.test(
+  "clientCredentials should reject any failed status with AuthenticationError",
+  withFetch(503, async () => {
+    const provider = clientCredentials({ url: "https://example.com/oauth/token", client_id: "c", client_secret: "s" });
+
+    const error = await assertRejects(() => provider.getToken(), AuthenticationError, "status 503");
+    assertEquals(error.status, 503);
+  }),
+);
+
+Deno.test("cachedToken should reuse a cached token until it is about to expire", async () => {
+  let stored: CachedToken | undefined;
+  const cache: TokenCache = {
+    load: () => stored,
+    save: (token) => {
+      stored = token;
+    },
+    clear: () => {
+      stored = undefined;
+    },
+  };
+  let issued = 0;
+  let now = 0;
+  const provider = cachedToken(
+    tokenCallback(() => Promise.resolve({ access_token: `token-${++issued}`, expires_in: 600, token_type: "Bearer" })),
+    cache,
+    { minValidity: 60, now: () => now },
+  );
+
+  assertEquals((await provider.getToken()).access_token, "token-1");
+  assertEquals(stored?.expires_at, 600000);
+
+  // A restart within the token's lifetime reuses it
+  now = 100000;
+  const reused = await provider.getToken();
+  assertEquals(reused.access_token, "token-1");
+  assertEquals(reused.expires_in, 500);
+
+  // Too close to expiry
+  now = 560000;
+  assertEquals((await provider.getToken()).access_token, "token-2");
+
+  // The platform rejected the token
+  await provider.invalidate?.();
+  assertEquals(stored, undefined);
+  assertEquals((await provider.getToken()).access_token, "token-3");
+});
@@ -0,0 +1,211 @@
+import { AuthenticationError } from "./models/Errors.ts";
+import { AuthResponse } from "./models/authResponse.ts";
+import { global } from "./global.ts";
+
+/**
+ * Supplies the OAuth token used to sign platform requests. `getToken` is called when connecting,
+ * shortly before the current token expires and whenever the platform rejects the current token.
+ */
+export interface TokenProvider {
+  getToken(): Promise<AuthResponse>;
+
+  /**
+   * Forgets any stored token so the next `getToken` obtains a new one
+   */
+  invalidate?(): void | Promise<void>;
+}
+
+export interface ClientCredentialsOptions {
+  url: string;
+  client_id: string;
+  client_secret: string;
+  scope?: string;
+  /**
+   * How the secret is sent: in the form body (default) or as an HTTP Basic `Authorization` header
+   */
+  authMethod?: "client_secret_post" | "client_secret_basic";
+}
+
+export interface JwtBearerOptions {
+  url: string;
+  /**
+   * A signed JWT, or a function producing a fresh one for every token request
+   */
+  assertion: string | (() => string | Promise<string>);
+  client_id?: string;
+  scope?: string;
+}
+
+/**
+ * POSTs a form-encoded grant to an OAuth token endpoint. Any status of 400 or above, not only 401,
+ * rejects with an `AuthenticationError` carrying that status.
+ */
+export const requestToken = async (
+  url: string,
+  params: URLSearchParams,
+  headers: Record<string, string> = {},
+): Promise<AuthResponse> => {
+  const response = await global.fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", ...headers },
+    redirect: "follow",
+    body: params.toString(), // Form-encoded data
+  });
+
+  if (response.status === 401) {
+    throw new AuthenticationError("Invalid Credentials", 401);
+  }
+  if (response.status >= 400) {
+    throw new AuthenticationError(`Token request failed with status ${response.status}`, response.status);
+  }
+
+  const data = await response.json();
+  return {
+    access_token: data.access_token,
+    expires_in: data.expires_in,
+    token_type: data.token_type,
+  };
+};
+
+/**
+ * The `client_credentials` grant
+ */
+export const clientCredentials = (options: ClientCredentialsOptions): TokenProvider => ({
+  getToken() {
+    const { url, client_id, client_secret, scope, authMethod = "client_secret_post" } = options;
+    const params = new URLSearchParams();
+    const headers: Record<string, string> = {};
+
+    if (authMethod === "client_secret_basic") {
+      const credentials = `${encodeURIComponent(client_id)}:${encodeURIComponent(client_secret)}`;
+      headers["Authorization"] = `Basic ${btoa(credentials)}`;
+    }
+    else {
+      params.append("client_id", client_id);
+      params.append("client_secret", client_secret);
+    }
+    params.append("grant_type", "client_credentials");
+    if (scope) params.append("scope", scope);
+
+    return requestToken(url, params, headers);
+  },
+});
+
+/**
+ * The JWT bearer assertion grant (RFC 7523)
+ */
+export const jwtBearer = (options: JwtBearerOptions): TokenProvider => ({
+  async getToken() {
+    const { url, assertion, client_id, scope } = options;
+    const params = new URLSearchParams();
+    params.append("grant_type", "urn:ietf:params:oauth:grant-type:jwt-bearer");
+    params.append("assertion", typeof assertion === "function" ? await assertion() : assertion);
+    if (client_id) params.append("client_id", client_id);
+    if (scope) params.append("scope", scope);
+
+    return requestToken(url, params);
+  },
+});
+
+/**
+ * A pre-issued token. `expires_in` of `0` means it never needs refreshing.
+ */
+export const staticToken = (access_token: string, expires_in = 0): TokenProvider => ({
+  getToken: () => Promise.resolve({ access_token, expires_in, token_type: "Bearer" }),
+});
+
+/**
+ * Tokens obtained by the application itself, e.g. from a kiosk management agent
+ */
+export const tokenCallback = (callback: () => Promise<AuthResponse | string>): TokenProvider => ({
+  async getToken() {
+    const token = await callback();
+    return typeof token === "string" ? { access_token: token, expires_in: 0, token_type: "Bearer" } : token;
+  },
+});
+
+export interface CachedToken {
+  access_token: string;
+  token_type: string;
+  /**
+   * Epoch milliseconds after which the token is no longer valid
+   */
+  expires_at: number;
+}
+
+export interface TokenCache {
+  load(): CachedToken | undefined | Promise<CachedToken | undefined>;
+  save(token: CachedToken): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * Keeps the token in a Web Storage area (`localStorage` by default) so it survives a restart
+ */
+export class StorageTokenCache implements TokenCache {
+  key: string;
+  storage: Storage;
+
+  constructor(key = "cuss2.token", storage: Storage = globalThis.localStorage) {
+    this.key = key;
+    this.storage = storage;
+  }
+
+  load(): CachedToken | undefined {
+    try {
+      const stored = this.storage.getItem(this.key);
+      return stored ? JSON.parse(stored) : undefined;
+    }
+    catch {
+      return undefined;
+    }
+  }
+
+  save(token: CachedToken): void {
+    this.storage.setItem(this.key, JSON.stringify(token));
+  }
+
+  clear(): void {
+    this.storage.removeItem(this.key);
+  }
+}
+
+/**
+ * Reuses a cached token while it has at least `minValidity` seconds left, otherwise asks
+ * `provider` for a new one and caches it. Tokens that never expire are not cached.
+ */
+export const cachedToken = (
+  provider: TokenProvider,
+  cache: TokenCache,
+  options: { minValidity?: number; now?: () => number } = {},
+): TokenProvider => {
+  const { minValidity = 60, now = Date.now } = options;
+
+  return {
+    async getToken() {
+      const cached = await cache.load();
+      if (cached && cached.expires_at - now() > minValidity * 1000) {
+        return {
+          access_token: cached.access_token,
+          expires_in: Math.floor((cached.expires_at - now()) / 1000),
+          token_type: cached.token_type,
+        };
+      }
+
+      const token = await provider.getToken();
+      if (token.expires_in > 0) {
+        await cache.save({
+          access_token: token.access_token,
+          token_type: token.token_type,
+          expires_at: now() + token.expires_in * 1000,
+        });
+      }
+      return token;
+    },
+
+    async invalidate() {
+      await cache.clear();
+      await provider.invalidate?.();
+    },
+  };
+};
@@ -0,0 +1,206 @@
+/**
+ * The socket-like channel Connection uses to reach the platform. A browser or Deno `WebSocket`
+ * satisfies it as-is; the other implementations here emulate the same event handlers.
+ */
+export interface Transport {
+  readonly readyState: number;
+  onopen: ((event: Event) => unknown) | null;
+  onmessage: ((event: MessageEvent) => unknown) | null;
+  onclose: ((event: CloseEvent) => unknown) | null;
+  onerror: ((event: Event) => unknown) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * Creates a new Transport for each connection attempt
+ */
+export type TransportFactory = (url: string) => Transport;
+
+export const TransportState = {
+  CONNECTING: 0,
+  OPEN: 1,
+  CLOSING: 2,
+  CLOSED: 3,
+};
+
+/**
+ * Connects through the runtime's WebSocket (browser, Deno, workers)
+ */
+export const webSocketTransport = (WebSocketClass: typeof WebSocket = globalThis.WebSocket): TransportFactory => {
+  return (url: string) => new WebSocketClass(url);
+};
+
+/**
+ * Base for transports that emulate WebSocket events on top of another channel
+ */
+export abstract class EmulatedTransport implements Transport {
+  readyState: number = TransportState.CONNECTING;
+  onopen: ((event: Event) => unknown) | null = null;
+  onmessage: ((event: MessageEvent) => unknown) | null = null;
+  onclose: ((event: CloseEvent) => unknown) | null = null;
+  onerror: ((event: Event) => unknown) | null = null;
+
+  abstract send(data: string): void;
+  abstract close(code?: number, reason?: string): void;
+
+  _opened(): void {
+    if (this.readyState !== TransportState.CONNECTING) return;
+    this.readyState = TransportState.OPEN;
+    this.onopen?.(new Event("open"));
+  }
+
+  _received(data: string): void {
+    if (this.readyState !== TransportState.OPEN) return;
+    this.onmessage?.(new MessageEvent("message", { data }));
+  }
+
+  _closed(code = 1000, reason = ""): void {
+    if (this.readyState === TransportState.CLOSED) return;
+    this.readyState = TransportState.CLOSED;
+    this.onclose?.(new CloseEvent("close", { code, reason, wasClean: code === 1000 }));
+  }
+}
+
+/**
+ * One end of an in-memory connection. Whatever one end sends, the other receives.
+ */
+export class LoopbackTransport extends EmulatedTransport {
+  peer?: LoopbackTransport;
+
+  /**
+   * Creates two connected ends that open on the next tick
+   */
+  static pair(): [LoopbackTransport, LoopbackTransport] {
+    const a = new LoopbackTransport();
+    const b = new LoopbackTransport();
+    a.peer = b;
+    b.peer = a;
+    setTimeout(() => {
+      a._opened();
+      b._opened();
+    }, 0);
+    return [a, b];
+  }
+
+  send(data: string): void {
+    if (this.readyState !== TransportState.OPEN) {
+      throw new Error("Transport is not open");
+    }
+    const peer = this.peer;
+    // deliver asynchronously, like a real socket
+    queueMicrotask(() => peer?._received(data));
+  }
+
+  close(code = 1000, reason = ""): void {
+    if (this.readyState === TransportState.CLOSED) return;
+    this.readyState = TransportState.CLOSING;
+    const peer = this.peer;
+    queueMicrotask(() => {
+      this._closed(code, reason);
+      peer?._closed(code, reason);
+    });
+  }
+}
+
+/**
+ * Connects to an in-process platform. `onConnection` receives the platform's end of every
+ * new connection, e.g. a mock platform used in tests.
+ */
+export const loopbackTransport = (
+  onConnection: (platformEnd: LoopbackTransport, url: string) => void,
+): TransportFactory => {
+  return (url: string) => {
+    const [client, platformEnd] = LoopbackTransport.pair();
+    onConnection(platformEnd, url);
+    return client;
+  };
+};
+
+// Control message exchanged by MessagePortTransport ends; everything else is payload
+interface PortControl {
+  cuss2Transport: "open" | "close";
+  code?: number;
+  reason?: string;
+}
+
+const isPortControl = (data: unknown): data is PortControl => {
+  return typeof data === "object" && data !== null && "cuss2Transport" in data;
+};
+
+/**
+ * Talks over a MessagePort, e.g. one end of a MessageChannel handed to a worker.
+ * The other end must be served by `bridgePort` (or an equivalent peer speaking the same control messages).
+ */
+export class MessagePortTransport extends EmulatedTransport {
+  port: MessagePort;
+
+  constructor(port: MessagePort) {
+    super();
+    this.port = port;
+    port.onmessage = (event: MessageEvent) => {
+      const data = event.data;
+      if (isPortControl(data)) {
+        if (data.cuss2Transport === "open") this._opened();
+        else this._closed(data.code, data.reason);
+        return;
+      }
+      this._received(data);
+    };
+    port.start();
+    port.postMessage({ cuss2Transport: "open" } as PortControl);
+  }
+
+  send(data: string): void {
+    if (this.readyState !== TransportState.OPEN) {
+      throw new Error("Transport is not open");
+    }
+    this.port.postMessage(data);
+  }
+
+  close(code = 1000, reason = ""): void {
+    if (this.readyState === TransportState.CLOSED) return;
+    this.port.postMessage({ cuss2Transport: "close", code, reason } as PortControl);
+    this._closed(code, reason);
+  }
+}
+
+/**
+ * Uses the MessagePort passed to each connection attempt by `portFactory`
+ */
+export const messagePortTransport = (portFactory: (url: string) => MessagePort): TransportFactory => {
+  return (url: string) => new MessagePortTransport(portFactory(url));
+};
+
+/**
+ * Serves a MessagePortTransport from the other side of its port by relaying to a real transport,
+ * typically a WebSocket opened on the main thread for a Cuss2 instance running in a worker.
+ */
+export const bridgePort = (port: MessagePort, transport: Transport): void => {
+  let requested = false;
+  const announceOpen = () => port.postMessage({ cuss2Transport: "open" } as PortControl);
+
+  port.onmessage = (event: MessageEvent) => {
+    const data = event.data;
+    if (isPortControl(data)) {
+      if (data.cuss2Transport === "open") {
+        requested = true;
+        if (transport.readyState === TransportState.OPEN) announceOpen();
+      }
+      else {
+        transport.close(data.code, data.reason);
+      }
+      return;
+    }
+    transport.send(data);
+  };
+  transport.onopen = () => {
+    if (requested) announceOpen();
+  };
+  transport.onmessage = (event) => port.postMessage(event.data);
+  transport.onclose = (event) => {
+    port.postMessage({ cuss2Transport: "close", code: event.code, reason: event.reason } as PortControl);
+    port.close();
+  };
+  port.start();
+};
@@ -0,0 +1,98 @@
+import { assertEquals } from "jsr:@std/assert";
+import {
+  ApplicationStateChangeReasonCodes,
+  ApplicationStateCodes,
+  ComponentState,
+  MessageCodes,
+  PlatformDirectives,
+} from "cuss2-typescript-models";
+import { validatePlatformData } from "./validation.ts";
+
+const currentApplicationState = { applicationStateCode: ApplicationStateCodes.AVAILABLE };
+
+Deno.test("validatePlatformData should accept well-formed messages", () => {
+  assertEquals(
+    validatePlatformData({
+      meta: {
+        requestID: "1",
+        messageCode: MessageCodes.OK,
+        platformDirective: PlatformDirectives.PlatformComponents,
+        componentState: ComponentState.READY,
+        currentApplicationState,
+      },
+      payload: { componentList: [] },
+    }),
+    [],
+  );
+});
+
+Deno.test("validatePlatformData should report each invalid field", () => {
+  assertEquals(validatePlatformData("not json object").map((i) => i.path), [""]);
+  assertEquals(validatePlatformData({ payload: {} }).map((i) => i.path), ["meta"]);
+
+  const issues = validatePlatformData({
+    meta: {
+      messageCode: MessageCodes.OK,
+      platformDirective: PlatformDirectives.PlatformEnvironment,
+      componentState: "BROKEN",
+      currentApplicationState: { applicationStateCode: "NAPPING" },
+    },
+    payload: { environmentLevel: "not an object" },
+  });
+  assertEquals(issues.map((i) => i.path), [
+    "meta.currentApplicationState.applicationStateCode",
+    "meta.componentState",
+    "payload.environmentLevel",
+  ]);
+  assertEquals(issues[1].value, "BROKEN");
+});
+
+Deno.test("validatePlatformData should check data records, activations and state changes", () => {
+  const paths = (data: unknown) => validatePlatformData(data).map((i) => i.path);
+
+  assertEquals(
+    paths({
+      meta: {
+        messageCode: MessageCodes.DATAPRESENT,
+        currentApplicationState: {
+          applicationStateCode: ApplicationStateCodes.ACTIVE,
+          applicationStateChangeReasonCode: ApplicationStateChangeReasonCodes.NOTAPPLICABLE,
+          accessibleMode: false,
+        },
+      },
+      payload: { dataRecords: [{ data: "M1DOE/JOHN" }], applicationActivation: { languageID: "en-US" } },
+    }),
+    [],
+  );
+
+  // DATAPRESENT without the data
+  assertEquals(paths({ meta: { messageCode: MessageCodes.DATAPRESENT, currentApplicationState } }), [
+    "payload.dataRecords",
+  ]);
+
+  assertEquals(
+    paths({
+      meta: {
+        messageCode: MessageCodes.OK,
+        platformDirective: PlatformDirectives.PlatformApplicationsStaterequest,
+        currentApplicationState: {
+          applicationStateCode: ApplicationStateCodes.ACTIVE,
+          applicationStateChangeReasonCode: "BORED",
+          accessibleMode: "yes",
+        },
+      },
+      payload: {
+        dataRecords: [{ data: 42 }, "raw"],
+        applicationActivation: { languageID: 7, accessibleMode: "no" },
+      },
+    }),
+    [
+      "meta.currentApplicationState.applicationStateChangeReasonCode",
+      "meta.currentApplicationState.accessibleMode",
+      "payload.dataRecords.0.data",
+      "payload.dataRecords.1",
+      "payload.applicationActivation.languageID",
+      "payload.applicationActivation.accessibleMode",
+    ],
+  );
+});
@@ -0,0 +1,145 @@
+import {
+  ApplicationStateChangeReasonCodes,
+  ApplicationStateCodes,
+  ComponentState,
+  MessageCodes,
+  PlatformData,
+  PlatformDirectives,
+} from "cuss2-typescript-models";
+import { ValidationIssue } from "./models/validationIssue.ts";
+
+/**
+ * How inbound messages are validated:
+ * - `off`: messages are passed on unchecked
+ * - `lenient`: invalid messages are reported and still passed on
+ * - `strict`: invalid messages are reported and dropped, failing the request they answer
+ */
+export type ValidationMode = "off" | "lenient" | "strict";
+
+type PayloadCheck = { field: string; type: "object" | "array" };
+
+type Report = (path: string, message: string, value?: unknown) => void;
+
+// The payload each directive's successful response must carry
+const payloadShapes: Partial<Record<PlatformDirectives, PayloadCheck>> = {
+  [PlatformDirectives.PlatformEnvironment]: { field: "environmentLevel", type: "object" },
+  [PlatformDirectives.PlatformComponents]: { field: "componentList", type: "array" },
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+const oneOf = (values: Record<string, unknown>) => new Set(Object.values(values));
+
+const messageCodes = oneOf(MessageCodes);
+const applicationStates = oneOf(ApplicationStateCodes);
+const changeReasons = oneOf(ApplicationStateChangeReasonCodes);
+const componentStates = oneOf(ComponentState);
+const directives = oneOf(PlatformDirectives);
+
+// Data read by a component; required when the platform reports DATAPRESENT
+const checkDataRecords = (records: unknown, required: boolean, issue: Report) => {
+  if (records === undefined) {
+    if (required) issue("payload.dataRecords", "dataRecords is required with DATAPRESENT");
+    return;
+  }
+  if (!Array.isArray(records)) {
+    issue("payload.dataRecords", "dataRecords must be an array", records);
+    return;
+  }
+  records.forEach((record, i) => {
+    if (!isObject(record)) {
+      issue(`payload.dataRecords.${i}`, "data record must be an object", record);
+    }
+    else if (record.data != null && typeof record.data !== "string") {
+      issue(`payload.dataRecords.${i}.data`, "data must be a string", record.data);
+    }
+  });
+};
+
+// Sent with the state change to ACTIVE
+const checkActivation = (activation: unknown, issue: Report) => {
+  if (activation === undefined) return;
+  if (!isObject(activation)) {
+    issue("payload.applicationActivation", "applicationActivation must be an object", activation);
+    return;
+  }
+  if (activation.languageID != null && typeof activation.languageID !== "string") {
+    issue("payload.applicationActivation.languageID", "languageID must be a string", activation.languageID);
+  }
+  const { accessibleMode } = activation;
+  if (accessibleMode != null && typeof accessibleMode !== "boolean") {
+    issue("payload.applicationActivation.accessibleMode", "accessibleMode must be a boolean", accessibleMode);
+  }
+};
+
+/**
+ * Checks a message from the platform against the CUSS2 model shapes. Returns no issues for a valid message.
+ */
+export const validatePlatformData = (data: unknown): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const issue: Report = (path, message, value) => issues.push({ path, message, value });
+
+  if (!isObject(data)) {
+    issue("", "message must be an object", data);
+    return issues;
+  }
+  const { meta, payload } = data as unknown as PlatformData;
+  if (!isObject(meta)) {
+    issue("meta", "meta is required", meta);
+    return issues;
+  }
+
+  if (meta.messageCode === undefined) {
+    issue("meta.messageCode", "messageCode is required");
+  }
+  else if (!messageCodes.has(meta.messageCode)) {
+    issue("meta.messageCode", "unknown messageCode", meta.messageCode);
+  }
+
+  const applicationState = meta.currentApplicationState;
+  if (!isObject(applicationState)) {
+    issue("meta.currentApplicationState", "currentApplicationState is required", applicationState);
+  }
+  else {
+    const { applicationStateCode, applicationStateChangeReasonCode: reasonCode, accessibleMode } = applicationState;
+    if (!applicationStates.has(applicationStateCode)) {
+      issue("meta.currentApplicationState.applicationStateCode", "unknown applicationStateCode", applicationStateCode);
+    }
+    if (reasonCode != null && !changeReasons.has(reasonCode)) {
+      issue("meta.currentApplicationState.applicationStateChangeReasonCode", "unknown reason code", reasonCode);
+    }
+    if (accessibleMode != null && typeof accessibleMode !== "boolean") {
+      issue("meta.currentApplicationState.accessibleMode", "accessibleMode must be a boolean", accessibleMode);
+    }
+  }
+
+  if (meta.componentState != null && !componentStates.has(meta.componentState)) {
+    issue("meta.componentState", "unknown componentState", meta.componentState);
+  }
+  if (meta.componentID != null && typeof meta.componentID !== "number" && typeof meta.componentID !== "string") {
+    issue("meta.componentID", "componentID must be a number or string", meta.componentID);
+  }
+  if (meta.platformDirective != null && !directives.has(meta.platformDirective)) {
+    issue("meta.platformDirective", "unknown platformDirective", meta.platformDirective);
+  }
+
+  if (payload != null && !isObject(payload)) {
+    issue("payload", "payload must be an object", payload);
+  }
+  else {
+    const fields = (payload ?? {}) as Record<string, unknown>;
+    const shape = meta.messageCode === MessageCodes.OK && meta.platformDirective
+      ? payloadShapes[meta.platformDirective]
+      : undefined;
+    const value = fields[shape?.field ?? ""];
+    if (shape && (shape.type === "array" ? !Array.isArray(value) : !isObject(value))) {
+      issue(`payload.${shape.field}`, `${shape.field} must be an ${shape.type}`, value);
+    }
+    checkDataRecords(fields.dataRecords, meta.messageCode === MessageCodes.DATAPRESENT, issue);
+    checkActivation(fields.applicationActivation, issue);
+  }
+
+  return issues;
+};
@@ -0,0 +1,3 @@
+// Test helpers for Deno, kept out of the main entry point
+export * from "./src/mockPlatform.ts";
+export * from "./src/scenario.ts";